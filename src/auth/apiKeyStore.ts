@@ -0,0 +1,140 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { logger } from '../logging/logger.js';
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    // SHA-256 of the full key; the key itself is only shown once, when generated
+    keyHash: string;
+    // Tool names this key may call, or ['*'] for all tools
+    tools: string[];
+    createdAt: string;
+}
+
+interface ApiKeyFile {
+    keys: ApiKeyRecord[];
+}
+
+const KEY_PREFIX = 'fcmcp';
+
+const log = logger.child('auth');
+
+function hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+export class ApiKeyStore {
+    private filePath: string;
+    private records: ApiKeyRecord[] = [];
+    private loadedMtimeMs?: number;
+    private reloadFailed = false;
+
+    constructor(filePath: string = ApiKeyStore.defaultPath()) {
+        this.filePath = filePath;
+        this.load();
+    }
+
+    static defaultPath(): string {
+        return join(homedir(), '.config', 'firecrawl-mcp', 'api-keys.json');
+    }
+
+    get path(): string {
+        return this.filePath;
+    }
+
+    hasKeys(): boolean {
+        this.reloadIfChanged();
+        return this.records.length > 0;
+    }
+
+    list(): Omit<ApiKeyRecord, 'keyHash'>[] {
+        this.load();
+        return this.records.map(({ keyHash, ...record }) => record);
+    }
+
+    generate(name: string, tools: string[] = ['*']): { key: string; record: ApiKeyRecord } {
+        this.load();
+        const id = randomBytes(4).toString('hex');
+        const key = `${KEY_PREFIX}_${id}_${randomBytes(32).toString('base64url')}`;
+        const record: ApiKeyRecord = {
+            id,
+            name,
+            keyHash: hashKey(key),
+            tools: tools.length > 0 ? tools : ['*'],
+            createdAt: new Date().toISOString()
+        };
+        this.records.push(record);
+        this.save();
+        return { key, record };
+    }
+
+    revoke(idOrName: string): boolean {
+        this.load();
+        const remaining = this.records.filter(record => record.id !== idOrName && record.name !== idOrName);
+        if (remaining.length === this.records.length) {
+            return false;
+        }
+        this.records = remaining;
+        this.save();
+        return true;
+    }
+
+    authenticate(key: string): ApiKeyRecord | undefined {
+        this.reloadIfChanged();
+        const presented = Buffer.from(hashKey(key), 'hex');
+        return this.records.find(record => {
+            const stored = Buffer.from(record.keyHash, 'hex');
+            return stored.length === presented.length && timingSafeEqual(stored, presented);
+        });
+    }
+
+    /**
+     * Picks up keys generated or revoked by the CLI while the server is running.
+     * A file that can't be read or parsed (e.g. caught mid-write) leaves the
+     * last good keys in place; it is retried on every call but logged once
+     * until a reload succeeds again.
+     */
+    private reloadIfChanged(): void {
+        try {
+            this.load();
+            this.reloadFailed = false;
+        } catch (error) {
+            if (!this.reloadFailed) {
+                log.error('Failed to reload API keys; keeping the previously loaded keys', {
+                    path: this.filePath,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+            this.reloadFailed = true;
+        }
+    }
+
+    // Throws when the file can't be read or parsed, so that changes are never saved over it
+    private load(): void {
+        if (!existsSync(this.filePath)) {
+            this.records = [];
+            this.loadedMtimeMs = undefined;
+            return;
+        }
+
+        const mtimeMs = statSync(this.filePath).mtimeMs;
+        if (mtimeMs === this.loadedMtimeMs) {
+            return;
+        }
+
+        const parsed: ApiKeyFile = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+        this.records = Array.isArray(parsed.keys) ? parsed.keys : [];
+        this.loadedMtimeMs = mtimeMs;
+    }
+
+    private save(): void {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        const file: ApiKeyFile = { keys: this.records };
+        writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+        chmodSync(this.filePath, 0o600);
+        this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+    }
+}
@@ -1,34 +1,135 @@
+import { RateLimitConfig } from '../transports/rateLimiter.js';
+import { FirecrawlConfig } from '../firecrawl/processManager.js';
+import { DEFAULT_TOOL_SETTINGS, loadConfigFile, validateConfig } from './configFile.js';
+import { LoggerConfig, LogLevel } from '../logging/logger.js';
+import { CrawlWebhookConfig } from '../firecrawl/crawlWebhook.js';
+import { ScreenshotOptions } from '../firecrawl/screenshots.js';
+import { CrawlExportConfig } from '../firecrawl/crawlExport.js';
+
 export interface TransportConfig {
   type: 'stdio' | 'http';
   port?: number;
   host?: string;
+  auth?: {
+    required?: boolean;
+    keysFile?: string;
+  };
+  stateless?: boolean;
+  sessionIdleTimeoutMs?: number;
+  maxSessions?: number;
+  maxSessionsPerClient?: number;
+  rateLimits?: RateLimitConfig;
+  allowedOrigins?: string[];
+  cors?: {
+    origins?: string[];
+    allowedHeaders?: string[];
+    exposedHeaders?: string[];
+  };
+  maxBodyBytes?: number;
+}
+
+export interface ResponseBudgetConfig {
+  maxChars?: number;
+  maxTokens?: number;
+}
+
+export interface CacheConfig {
+  enabled?: boolean;
+  directory?: string;
+  ttlSeconds?: number;
+  maxSizeMb?: number;
+}
+
+export interface RemoteFirecrawlConfig {
+  apiUrl?: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+export interface ClientResilienceConfig {
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  circuitFailureThreshold?: number;
+  circuitResetMs?: number;
 }
 
+// Per-tool argument defaults and upper bounds, keyed by tool name
+export interface ToolSetting {
+  defaults?: Record<string, unknown>;
+  caps?: Record<string, number>;
+}
+
+export type ToolSettings = Record<string, ToolSetting>;
+
 export interface ServerConfig {
   transport: TransportConfig;
+  responseBudget?: ResponseBudgetConfig;
+  cache?: CacheConfig;
+  resilience?: ClientResilienceConfig;
+  remote?: RemoteFirecrawlConfig;
+  processManager?: FirecrawlConfig;
+  tools?: ToolSettings;
+  logging?: LoggerConfig;
+  webhooks?: CrawlWebhookConfig;
+  // Size caps for screenshots returned as image content
+  screenshots?: ScreenshotOptions;
+  // Root directory firecrawl_export writes under
+  export?: CrawlExportConfig;
+  metrics?: {
+    // Where SIGUSR2 writes a metrics snapshot (default: stderr)
+    file?: string;
+  };
+  // Shorthand for logging.level = 'debug'
   debug?: boolean;
 }
 
+// A partial config layer (config file or environment) merged over the defaults
+export type ServerConfigOverrides = Omit<Partial<ServerConfig>, 'transport'> & {
+  transport?: Partial<TransportConfig>;
+};
+
+const DEFAULT_CONFIG: ServerConfig = {
+  transport: {
+    type: 'stdio',
+    port: 3000,
+    host: '127.0.0.1',
+    auth: {},
+    cors: {}
+  },
+  responseBudget: {},
+  cache: { enabled: true },
+  resilience: {},
+  remote: {},
+  processManager: {
+    firecrawlPath: process.cwd(),
+    redisUrl: 'redis://localhost:6379',
+    port: 3002
+  },
+  tools: DEFAULT_TOOL_SETTINGS,
+  logging: { level: 'info', format: 'text' },
+  webhooks: { enabled: true },
+  screenshots: {},
+  export: {},
+  metrics: {},
+  debug: false
+};
+
+// Precedence: CLI flags > environment variables > config file > defaults
 export function parseArgs(args: string[]): ServerConfig {
-  // Start with environment variables as base config
-  const config: ServerConfig = {
-    transport: {
-      type: (process.env.TRANSPORT as 'stdio' | 'http') || 'stdio',
-      port: process.env.PORT ? parseInt(process.env.PORT, 10) : 3000,
-      host: process.env.HOST || '127.0.0.1'
-    },
-    debug: process.env.DEBUG === 'true' || false
-  };
+  const configIndex = args.indexOf('--config');
+  const configPath = configIndex >= 0 ? args[configIndex + 1] : process.env.FIRECRAWL_MCP_CONFIG;
+  const fileConfig = configPath ? loadConfigFile(configPath) : {};
+
+  const envConfig = validateConfig(readEnvConfig(), 'environment variables');
+  const config = mergeConfig(mergeConfig(structuredClone(DEFAULT_CONFIG), fileConfig), envConfig);
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
     switch (arg) {
       case '--transport':
-        const transport = args[++i];
-        if (transport === 'stdio' || transport === 'http') {
-          config.transport.type = transport;
-        }
+        config.transport.type = args[++i] as 'stdio' | 'http';
         break;
       case '--port':
         config.transport.port = parseInt(args[++i], 10);
@@ -36,6 +137,85 @@ export function parseArgs(args: string[]): ServerConfig {
       case '--host':
         config.transport.host = args[++i];
         break;
+      case '--max-response-chars':
+        config.responseBudget!.maxChars = parseInt(args[++i], 10);
+        break;
+      case '--max-response-tokens':
+        config.responseBudget!.maxTokens = parseInt(args[++i], 10);
+        break;
+      case '--cache-dir':
+        config.cache!.directory = args[++i];
+        break;
+      case '--no-cache':
+        config.cache!.enabled = false;
+        break;
+      case '--api-url':
+        config.remote!.apiUrl = args[++i];
+        break;
+      case '--api-key':
+        config.remote!.apiKey = args[++i];
+        break;
+      case '--header': {
+        const [name, ...value] = (args[++i] || '').split(':');
+        if (name && value.length > 0) {
+          config.remote!.headers = { ...config.remote!.headers, [name.trim()]: value.join(':').trim() };
+        }
+        break;
+      }
+      case '--stateless':
+        config.transport.stateless = true;
+        break;
+      case '--session-idle-timeout':
+        config.transport.sessionIdleTimeoutMs = parseInt(args[++i], 10) * 1000;
+        break;
+      case '--max-sessions':
+        config.transport.maxSessions = parseInt(args[++i], 10);
+        break;
+      case '--max-sessions-per-client':
+        config.transport.maxSessionsPerClient = parseInt(args[++i], 10);
+        break;
+      case '--no-rate-limit':
+        config.transport.rateLimits = { ...config.transport.rateLimits, enabled: false };
+        break;
+      case '--allowed-origins':
+        config.transport.allowedOrigins = splitList(args[++i]);
+        break;
+      case '--cors-origins':
+        config.transport.cors!.origins = splitList(args[++i]);
+        break;
+      case '--max-body-bytes':
+        config.transport.maxBodyBytes = parseInt(args[++i], 10);
+        break;
+      case '--require-auth':
+        config.transport.auth!.required = true;
+        break;
+      case '--api-keys-file':
+        config.transport.auth!.keysFile = args[++i];
+        break;
+      case '--config':
+        i++; // Loaded before the environment so it can be overridden
+        break;
+      case '--log-level':
+        config.logging!.level = args[++i] as LogLevel;
+        break;
+      case '--log-format':
+        config.logging!.format = args[++i] as 'text' | 'json';
+        break;
+      case '--log-file':
+        config.logging!.file = args[++i];
+        break;
+      case '--webhook-url':
+        config.webhooks!.publicUrl = args[++i];
+        break;
+      case '--no-webhooks':
+        config.webhooks!.enabled = false;
+        break;
+      case '--export-dir':
+        config.export!.directory = args[++i];
+        break;
+      case '--metrics-file':
+        config.metrics!.file = args[++i];
+        break;
       case '--debug':
         config.debug = true;
         break;
@@ -46,16 +226,88 @@ Firecrawl MCP Server
 Usage: node build/index.js [options]
 
 Options:
+  --config <path>          JSON or YAML config file (CLI flags and env vars take precedence)
   --transport <type>        Transport type: stdio (default) | http
   --port <number>          Port for HTTP transport (default: 3000)
   --host <string>          Host for HTTP transport (default: 127.0.0.1)
-  --debug                  Enable debug logging
+  --max-response-chars <n> Maximum characters per tool response (default: 100000)
+  --max-response-tokens <n> Maximum estimated tokens per tool response
+  --cache-dir <path>       Directory for the scrape cache (default: ~/.cache/firecrawl-mcp/scrapes)
+  --no-cache               Disable the scrape cache
+  --api-url <url>          Use an existing Firecrawl instance instead of starting one
+  --api-key <key>          API key sent as a Bearer token to the Firecrawl instance
+  --header <name:value>    Extra header for Firecrawl requests (repeatable)
+  --stateless              Run the HTTP transport without sessions
+  --session-idle-timeout <s> Close HTTP sessions idle for this many seconds (default: 1800)
+  --max-sessions <n>       Maximum open HTTP sessions (default: 1000)
+  --max-sessions-per-client <n> Maximum open HTTP sessions per API key or address (default: 20)
+  --no-rate-limit          Disable per-client rate limits on the HTTP transport
+  --allowed-origins <list> Comma-separated origin patterns, e.g. "https://*.example.com,http://localhost:*"
+  --cors-origins <list>    Origin patterns allowed by CORS (default: same as --allowed-origins)
+  --max-body-bytes <n>     Maximum HTTP request body size (default: 10485760)
+  --require-auth           Require an API key on the HTTP transport
+  --api-keys-file <path>   API key file (default: ~/.config/firecrawl-mcp/api-keys.json)
+  --log-level <level>      Log level: debug | info (default) | warn | error
+  --log-format <format>    Log format: text (default) | json
+  --log-file <path>        Write logs to this file instead of stderr
+  --webhook-url <url>      URL Firecrawl calls with crawl events (default: this server's address)
+  --no-webhooks            Don't register a crawl webhook; follow crawls by polling only
+  --export-dir <path>      Root directory for firecrawl_export (default: ~/firecrawl-exports; required over HTTP)
+  --metrics-file <path>    File that SIGUSR2 writes a Prometheus metrics snapshot to (default: stderr)
+  --debug                  Enable debug logging (same as --log-level debug)
   --help                   Show this help message
 
 Environment Variables:
+  FIRECRAWL_MCP_CONFIG    Config file path (same as --config)
   TRANSPORT               Transport type: stdio | http
   PORT                   Port for HTTP transport
   HOST                   Host for HTTP transport
+  MAX_RESPONSE_CHARS     Maximum characters per tool response
+  MAX_RESPONSE_TOKENS    Maximum estimated tokens per tool response
+  SCRAPE_CACHE           Set to false to disable the scrape cache
+  SCRAPE_CACHE_DIR       Directory for the scrape cache
+  SCRAPE_CACHE_TTL       Scrape cache TTL in seconds (default: 86400)
+  SCRAPE_CACHE_MAX_MB    Scrape cache size limit in MB (default: 100)
+  FIRECRAWL_MAX_RETRIES  Retries for failed Firecrawl requests (default: 3)
+  FIRECRAWL_RETRY_BASE_MS Base backoff delay in ms (default: 500)
+  FIRECRAWL_RETRY_MAX_MS Maximum backoff delay in ms (default: 10000)
+  FIRECRAWL_CIRCUIT_THRESHOLD Consecutive failures before failing fast (default: 5)
+  FIRECRAWL_CIRCUIT_RESET_MS Time before retrying after the circuit opens (default: 30000)
+  FIRECRAWL_API_URL      Use an existing Firecrawl instance instead of starting one
+  FIRECRAWL_API_KEY      API key sent as a Bearer token to the Firecrawl instance
+  FIRECRAWL_HEADERS      Extra headers for Firecrawl requests as a JSON object
+  MCP_STATELESS          Run the HTTP transport without sessions (true/false)
+  MCP_SESSION_IDLE_TIMEOUT Idle HTTP session timeout in seconds
+  MCP_MAX_SESSIONS       Maximum open HTTP sessions (default: 1000)
+  MCP_MAX_SESSIONS_PER_CLIENT Maximum open HTTP sessions per API key or address (default: 20)
+  MCP_RATE_LIMITS        Rate limit overrides as JSON, e.g. {"tools":{"firecrawl_crawl":{"requestsPerMinute":2}}}
+  MCP_ALLOWED_ORIGINS    Comma-separated origin patterns accepted by the HTTP transport
+  MCP_CORS_ORIGINS       Comma-separated origin patterns allowed by CORS
+  MCP_CORS_ALLOWED_HEADERS Comma-separated CORS request headers
+  MCP_CORS_EXPOSED_HEADERS Comma-separated CORS response headers (default: mcp-session-id)
+  MCP_MAX_BODY_BYTES     Maximum HTTP request body size in bytes
+  MCP_REQUIRE_AUTH       Require an API key on the HTTP transport (true/false)
+  MCP_API_KEYS_FILE      API key file for the HTTP transport
+  FIRECRAWL_PATH         Path to Firecrawl repository
+  REDIS_URL              Redis connection URL
+  FIRECRAWL_PORT         Port for the managed Firecrawl API
+  FIRECRAWL_MAX_RESTARTS Consecutive crashes restarted before giving up (default: 5)
+  FIRECRAWL_RESTART_BASE_MS Base restart backoff in ms (default: 1000)
+  FIRECRAWL_RESTART_MAX_MS Maximum restart backoff in ms (default: 30000)
+  FIRECRAWL_LOG_LINES    Log lines kept in memory per Firecrawl process (default: 1000)
+  FIRECRAWL_LOG_DIR      Also write Firecrawl process logs to rotating files in this directory
+  LOG_LEVEL              Log level: debug | info | warn | error
+  LOG_FORMAT             Log format: text | json
+  LOG_FILE               Write logs to this file instead of stderr
+  FIRECRAWL_WEBHOOKS     Set to false to stop registering crawl webhooks
+  FIRECRAWL_WEBHOOK_URL  URL Firecrawl calls with crawl events
+  FIRECRAWL_WEBHOOK_SECRET Shared secret Firecrawl must send with crawl events (default: random)
+  FIRECRAWL_WEBHOOK_PORT Webhook listener port under the stdio transport (default: random free port)
+  SCREENSHOT_MAX_WIDTH   Maximum width of returned screenshots in pixels (default: 1280)
+  SCREENSHOT_MAX_HEIGHT  Maximum height of returned screenshots in pixels (default: 7680)
+  SCREENSHOT_FIT         scale (default) to shrink screenshots, or crop to cut tall ones off
+  FIRECRAWL_EXPORT_DIR   Root directory for firecrawl_export (required over HTTP)
+  METRICS_FILE           File that SIGUSR2 writes a Prometheus metrics snapshot to
   DEBUG                  Enable debug logging (true/false)
 
 Examples:
@@ -67,5 +319,144 @@ Examples:
     }
   }
 
+  // Flags are parsed without checks above, so e.g. "--port abc" is caught here
+  validateConfig(config, 'command line options');
   return config;
-} 
\ No newline at end of file
+}
+
+// Every value is undefined unless its variable is set, so unset variables don't mask the config file
+function readEnvConfig(): ServerConfigOverrides {
+  return {
+    transport: {
+      type: process.env.TRANSPORT as 'stdio' | 'http' | undefined,
+      port: parseIntEnv('PORT'),
+      host: process.env.HOST,
+      auth: {
+        required: parseBoolEnv('MCP_REQUIRE_AUTH'),
+        keysFile: process.env.MCP_API_KEYS_FILE
+      },
+      stateless: parseBoolEnv('MCP_STATELESS'),
+      sessionIdleTimeoutMs: process.env.MCP_SESSION_IDLE_TIMEOUT ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT, 10) * 1000 : undefined,
+      maxSessions: parseIntEnv('MCP_MAX_SESSIONS'),
+      maxSessionsPerClient: parseIntEnv('MCP_MAX_SESSIONS_PER_CLIENT'),
+      rateLimits: parseJsonEnv<RateLimitConfig>('MCP_RATE_LIMITS'),
+      allowedOrigins: parseListEnv('MCP_ALLOWED_ORIGINS'),
+      cors: {
+        origins: parseListEnv('MCP_CORS_ORIGINS'),
+        allowedHeaders: parseListEnv('MCP_CORS_ALLOWED_HEADERS'),
+        exposedHeaders: parseListEnv('MCP_CORS_EXPOSED_HEADERS')
+      },
+      maxBodyBytes: parseIntEnv('MCP_MAX_BODY_BYTES')
+    },
+    responseBudget: {
+      maxChars: parseIntEnv('MAX_RESPONSE_CHARS'),
+      maxTokens: parseIntEnv('MAX_RESPONSE_TOKENS')
+    },
+    cache: {
+      enabled: process.env.SCRAPE_CACHE ? process.env.SCRAPE_CACHE !== 'false' : undefined,
+      directory: process.env.SCRAPE_CACHE_DIR,
+      ttlSeconds: parseIntEnv('SCRAPE_CACHE_TTL'),
+      maxSizeMb: parseIntEnv('SCRAPE_CACHE_MAX_MB')
+    },
+    resilience: {
+      maxRetries: parseIntEnv('FIRECRAWL_MAX_RETRIES'),
+      retryBaseDelayMs: parseIntEnv('FIRECRAWL_RETRY_BASE_MS'),
+      retryMaxDelayMs: parseIntEnv('FIRECRAWL_RETRY_MAX_MS'),
+      circuitFailureThreshold: parseIntEnv('FIRECRAWL_CIRCUIT_THRESHOLD'),
+      circuitResetMs: parseIntEnv('FIRECRAWL_CIRCUIT_RESET_MS')
+    },
+    remote: {
+      apiUrl: process.env.FIRECRAWL_API_URL,
+      apiKey: process.env.FIRECRAWL_API_KEY,
+      headers: parseJsonEnv<Record<string, string>>('FIRECRAWL_HEADERS')
+    },
+    processManager: {
+      firecrawlPath: process.env.FIRECRAWL_PATH,
+      redisUrl: process.env.REDIS_URL,
+      port: parseIntEnv('FIRECRAWL_PORT'),
+      maxRestarts: parseIntEnv('FIRECRAWL_MAX_RESTARTS'),
+      restartBaseDelayMs: parseIntEnv('FIRECRAWL_RESTART_BASE_MS'),
+      restartMaxDelayMs: parseIntEnv('FIRECRAWL_RESTART_MAX_MS'),
+      logs: {
+        maxLines: parseIntEnv('FIRECRAWL_LOG_LINES'),
+        directory: process.env.FIRECRAWL_LOG_DIR
+      }
+    },
+    logging: {
+      level: process.env.LOG_LEVEL as LogLevel | undefined,
+      format: process.env.LOG_FORMAT as 'text' | 'json' | undefined,
+      file: process.env.LOG_FILE
+    },
+    webhooks: {
+      enabled: parseBoolEnv('FIRECRAWL_WEBHOOKS'),
+      publicUrl: process.env.FIRECRAWL_WEBHOOK_URL,
+      secret: process.env.FIRECRAWL_WEBHOOK_SECRET,
+      port: parseIntEnv('FIRECRAWL_WEBHOOK_PORT')
+    },
+    screenshots: {
+      maxWidth: parseIntEnv('SCREENSHOT_MAX_WIDTH'),
+      maxHeight: parseIntEnv('SCREENSHOT_MAX_HEIGHT'),
+      fit: process.env.SCREENSHOT_FIT as 'scale' | 'crop' | undefined
+    },
+    export: {
+      directory: process.env.FIRECRAWL_EXPORT_DIR
+    },
+    metrics: {
+      file: process.env.METRICS_FILE
+    },
+    debug: parseBoolEnv('DEBUG')
+  };
+}
+
+// Deep-merges plain objects; undefined values in the override are skipped and arrays are replaced
+function mergeConfig<T extends object>(base: T, override: object): T {
+  const merged: Record<string, unknown> = { ...base as Record<string, unknown> };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseIntEnv(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? parseInt(value, 10) : undefined;
+}
+
+function parseBoolEnv(name: string): boolean | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' ? undefined : value === 'true';
+}
+
+function parseJsonEnv<T extends object>(name: string): T | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid environment variables:\n  ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Invalid environment variables:\n  ${name}: Expected a JSON object`);
+  }
+  return parsed as T;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseListEnv(name: string): string[] | undefined {
+  return splitList(process.env[name]);
+}
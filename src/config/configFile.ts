@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { FirecrawlSchemas } from '../firecrawl/schemas.js';
+import { ServerConfigOverrides, ToolSettings } from './TransportConfig.js';
+
+const toolRateLimitSchema = z.object({
+  requestsPerMinute: z.number().positive().optional(),
+  burst: z.number().int().positive().optional(),
+  maxConcurrent: z.number().int().positive().optional()
+}).strict();
+
+type ToolName = keyof typeof FirecrawlSchemas;
+
+const toolNameSchema = z.enum(Object.keys(FirecrawlSchemas) as [ToolName, ...ToolName[]]);
+
+// Defaults are merged into arguments after the tool schema has run, so they are checked against it here instead
+function toolDefaultsSchema(tool: ToolName): z.ZodTypeAny {
+  const schema: z.ZodTypeAny = FirecrawlSchemas[tool];
+  const shape = schema instanceof z.ZodEffects ? schema.innerType() : schema;
+  return (shape as z.AnyZodObject).partial().strict();
+}
+
+const toolSettingsSchema = z.record(toolNameSchema, z.object({
+  defaults: z.record(z.unknown()).optional(),
+  caps: z.record(z.number()).optional()
+}).strict()).superRefine((tools, ctx) => {
+  for (const [tool, setting] of Object.entries(tools) as [ToolName, { defaults?: Record<string, unknown> }][]) {
+    const result = toolDefaultsSchema(tool).safeParse(setting.defaults || {});
+    for (const issue of result.success ? [] : result.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: [tool, 'defaults', ...issue.path] });
+    }
+  }
+});
+
+// Mirrors ServerConfig; strict objects so a misspelled key is reported instead of silently ignored
+export const ConfigFileSchema = z.object({
+  transport: z.object({
+    type: z.enum(['stdio', 'http']).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    host: z.string().optional(),
+    auth: z.object({
+      required: z.boolean().optional(),
+      keysFile: z.string().optional()
+    }).strict().optional(),
+    stateless: z.boolean().optional(),
+    sessionIdleTimeoutMs: z.number().int().positive().optional(),
+    maxSessions: z.number().int().positive().optional(),
+    maxSessionsPerClient: z.number().int().positive().optional(),
+    rateLimits: z.object({
+      enabled: z.boolean().optional(),
+      default: toolRateLimitSchema.optional(),
+      tools: z.record(toolNameSchema, toolRateLimitSchema).optional(),
+      maxConcurrentPerClient: z.number().int().positive().optional(),
+      initialize: toolRateLimitSchema.optional()
+    }).strict().optional(),
+    allowedOrigins: z.array(z.string()).optional(),
+    cors: z.object({
+      origins: z.array(z.string()).optional(),
+      allowedHeaders: z.array(z.string()).optional(),
+      exposedHeaders: z.array(z.string()).optional()
+    }).strict().optional(),
+    maxBodyBytes: z.number().int().positive().optional()
+  }).strict().optional(),
+  remote: z.object({
+    apiUrl: z.string().url().optional(),
+    apiKey: z.string().optional(),
+    headers: z.record(z.string()).optional()
+  }).strict().optional(),
+  resilience: z.object({
+    maxRetries: z.number().int().min(0).optional(),
+    retryBaseDelayMs: z.number().int().min(0).optional(),
+    retryMaxDelayMs: z.number().int().min(0).optional(),
+    circuitFailureThreshold: z.number().int().min(1).optional(),
+    circuitResetMs: z.number().int().min(0).optional()
+  }).strict().optional(),
+  processManager: z.object({
+    firecrawlPath: z.string().optional(),
+    redisUrl: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    maxRestarts: z.number().int().min(0).optional(),
+    restartBaseDelayMs: z.number().int().min(0).optional(),
+    restartMaxDelayMs: z.number().int().min(0).optional(),
+    logs: z.object({
+      maxLines: z.number().int().positive().optional(),
+      directory: z.string().optional(),
+      maxFileBytes: z.number().int().positive().optional(),
+      maxFiles: z.number().int().min(0).optional()
+    }).strict().optional()
+  }).strict().optional(),
+  responseBudget: z.object({
+    maxChars: z.number().int().positive().optional(),
+    maxTokens: z.number().int().positive().optional()
+  }).strict().optional(),
+  cache: z.object({
+    enabled: z.boolean().optional(),
+    directory: z.string().optional(),
+    ttlSeconds: z.number().int().min(0).optional(),
+    maxSizeMb: z.number().positive().optional()
+  }).strict().optional(),
+  tools: toolSettingsSchema.optional(),
+  logging: z.object({
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    format: z.enum(['text', 'json']).optional(),
+    file: z.string().optional()
+  }).strict().optional(),
+  webhooks: z.object({
+    enabled: z.boolean().optional(),
+    secret: z.string().min(16).optional(),
+    publicUrl: z.string().url().optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    host: z.string().optional()
+  }).strict().optional(),
+  screenshots: z.object({
+    maxWidth: z.number().int().min(16).optional(),
+    maxHeight: z.number().int().min(16).optional(),
+    fit: z.enum(['scale', 'crop']).optional(),
+    maxBytes: z.number().int().positive().optional()
+  }).strict().optional(),
+  export: z.object({
+    directory: z.string().optional()
+  }).strict().optional(),
+  metrics: z.object({
+    file: z.string().optional()
+  }).strict().optional(),
+  debug: z.boolean().optional()
+}).strict();
+
+// Values the handlers fall back to when a caller leaves an argument out
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  firecrawl_crawl: { defaults: { maxDepth: 2, limit: 10 } },
+  firecrawl_search: { defaults: { limit: 5 } },
+  firecrawl_map: { defaults: { limit: 100 } }
+};
+
+export function loadConfigFile(filePath: string): ServerConfigOverrides {
+  let raw: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf-8');
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Failed to read config file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return validateConfig(raw ?? {}, `config file ${filePath}`);
+}
+
+// Environment variables go through the same schema, so a bad TRANSPORT or LOG_LEVEL fails like a bad file would
+export function validateConfig(raw: unknown, source: string): ServerConfigOverrides {
+  const result = ConfigFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}:\n${issues.join('\n')}`);
+  }
+  return result.data;
+}
+
+// Fills in configured defaults, then clamps numeric arguments to their caps
+export function applyToolSettings<T extends object>(settings: ToolSettings | undefined, tool: string, args: T): T {
+  const setting = settings?.[tool];
+  if (!setting) {
+    return args;
+  }
+
+  const applied: Record<string, unknown> = { ...args as Record<string, unknown> };
+  for (const [key, value] of Object.entries(setting.defaults || {})) {
+    if (applied[key] === undefined) {
+      applied[key] = value;
+    }
+  }
+  for (const [key, cap] of Object.entries(setting.caps || {})) {
+    const value = applied[key];
+    if (typeof value === 'number' && value > cap) {
+      applied[key] = cap;
+    }
+  }
+  return applied as T;
+}
@@ -0,0 +1,92 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold?: number;
+    resetTimeoutMs?: number;
+}
+
+export interface CircuitBreakerStatus {
+    state: CircuitState;
+    consecutiveFailures: number;
+    failureThreshold: number;
+    openedAt?: string;
+    retryAt?: string;
+    lastError?: string;
+}
+
+/**
+ * Stops sending requests to Firecrawl after repeated failures. Once the reset
+ * timeout has passed a single trial request is let through (half open); its
+ * outcome decides whether the circuit closes again or stays open. A trial that
+ * records no outcome within the reset timeout is given up on and another
+ * request becomes the trial.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt?: number;
+    private lastError?: string;
+    private trialStartedAt?: number;
+    private failureThreshold: number;
+    private resetTimeoutMs: number;
+
+    constructor(options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold ?? 5;
+        this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    }
+
+    canRequest(): boolean {
+        if (this.state === 'closed') {
+            return true;
+        }
+
+        if (this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.resetTimeoutMs) {
+            this.state = 'half_open';
+        }
+
+        if (this.state === 'half_open' &&
+            (this.trialStartedAt === undefined || Date.now() - this.trialStartedAt >= this.resetTimeoutMs)) {
+            this.trialStartedAt = Date.now();
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = undefined;
+        this.trialStartedAt = undefined;
+    }
+
+    recordFailure(error: string): void {
+        this.consecutiveFailures++;
+        this.lastError = error;
+        this.trialStartedAt = undefined;
+
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+
+    retryInMs(): number {
+        if (this.state !== 'open' || this.openedAt === undefined) {
+            return 0;
+        }
+        return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+    }
+
+    getStatus(): CircuitBreakerStatus {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            failureThreshold: this.failureThreshold,
+            ...(this.openedAt !== undefined && {
+                openedAt: new Date(this.openedAt).toISOString(),
+                retryAt: new Date(this.openedAt + this.resetTimeoutMs).toISOString()
+            }),
+            ...(this.lastError && { lastError: this.lastError })
+        };
+    }
+}
@@ -1,11 +1,54 @@
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerStatus } from './circuitBreaker.js';
+import { endpointLabel, upstreamDuration, upstreamResponses } from '../metrics/serverMetrics.js';
+
+export interface JsonExtractionOptions {
+    schema?: Record<string, any>;
+    prompt?: string;
+    systemPrompt?: string;
+}
+
+// Browser interactions performed in order before the page content is captured
+export type BrowserAction =
+    | { type: 'wait'; milliseconds?: number; selector?: string }
+    | { type: 'click'; selector: string; all?: boolean }
+    | { type: 'scroll'; direction?: 'up' | 'down'; selector?: string }
+    | { type: 'write'; text: string }
+    | { type: 'press'; key: string }
+    | { type: 'screenshot'; fullPage?: boolean }
+    | { type: 'executeJavascript'; script: string };
+
+export interface LocationOptions {
+    // ISO 3166-1 alpha-2 country code, e.g. 'US' or 'DE'
+    country?: string;
+    languages?: string[];
+}
 
 export interface ScrapeOptions {
-    formats?: ('markdown' | 'html' | 'rawHtml' | 'links' | 'screenshot')[];
+    formats?: ('markdown' | 'html' | 'rawHtml' | 'links' | 'screenshot' | 'screenshot@fullPage' | 'json' | 'extract')[];
     includeTags?: string[];
     excludeTags?: string[];
     onlyMainContent?: boolean;
     timeout?: number;
+    jsonOptions?: JsonExtractionOptions;
+    extractOptions?: JsonExtractionOptions;
+    actions?: BrowserAction[];
+    // Delay in milliseconds before capturing the page
+    waitFor?: number;
+    headers?: Record<string, string>;
+    mobile?: boolean;
+    location?: LocationOptions;
+    skipTlsVerification?: boolean;
+    removeBase64Images?: boolean;
+}
+
+export type CrawlWebhookEvent = 'started' | 'page' | 'completed' | 'failed';
+
+export interface CrawlWebhook {
+    url: string;
+    headers?: Record<string, string>;
+    metadata?: Record<string, any>;
+    events?: CrawlWebhookEvent[];
 }
 
 export interface CrawlOptions {
@@ -15,6 +58,10 @@ export interface CrawlOptions {
     limit?: number;
     allowBackwardLinks?: boolean;
     allowExternalLinks?: boolean;
+    crawlEntireDomain?: boolean;
+    ignoreSitemap?: boolean;
+    ignoreQueryParameters?: boolean;
+    webhook?: string | CrawlWebhook;
     scrapeOptions?: ScrapeOptions;
 }
 
@@ -27,12 +74,66 @@ export interface SearchOptions {
     scrapeOptions?: ScrapeOptions;
 }
 
+export interface BatchScrapeOptions extends ScrapeOptions {
+    ignoreInvalidURLs?: boolean;
+}
+
+export interface ExtractOptions extends JsonExtractionOptions {
+    enableWebSearch?: boolean;
+}
+
+export interface MapOptions {
+    search?: string;
+    ignoreSitemap?: boolean;
+    sitemapOnly?: boolean;
+    includeSubdomains?: boolean;
+    limit?: number;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RetryOptions {
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+export interface FirecrawlClientOptions {
+    apiKey?: string;
+    headers?: Record<string, string>;
+    retry?: RetryOptions;
+    circuitBreaker?: CircuitBreakerOptions;
+}
+
+// Methods that can be safely repeated after a network error or timeout
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+// Status codes worth retrying for methods that are safe to repeat
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+// Status codes meaning the request was refused before any work started. A 502 or 504
+// may come back after Firecrawl already started a crawl, so a POST isn't repeated on those.
+const REFUSED_STATUS_CODES = [429, 503];
+
+class FirecrawlHttpError extends McpError {
+    constructor(public readonly status: number, message: string, public readonly retryAfterMs?: number) {
+        super(ErrorCode.InternalError, message);
+    }
+}
+
 export interface ScrapeResult {
     markdown?: string;
     html?: string;
     rawHtml?: string;
     links?: string[];
     screenshot?: string;
+    json?: any;
+    extract?: any;
+    warning?: string;
+    // Outputs of screenshot, scrape and executeJavascript actions, in action order
+    actions?: {
+        screenshots?: string[];
+        scrapes?: { url: string; html: string }[];
+        javascriptReturns?: { type: string; value: unknown }[];
+    };
     metadata: {
         title?: string;
         description?: string;
@@ -58,24 +159,95 @@ export interface ScrapeResult {
 
 export interface CrawlResult {
     jobId: string;
+    status?: string;
     data?: ScrapeResult[];
     completed?: boolean;
     total?: number;
     current?: number;
-    next?: string;
+    // Index of the first entry in data within the whole crawl
+    offset?: number;
+    // Opaque continuation token for the next batch of results
+    cursor?: string;
 }
 
+export interface CrawlStatusOptions {
+    cursor?: string;
+    followNext?: boolean;
+    maxPages?: number;
+    maxBytes?: number;
+}
+
+// Caps on what one tool response collects when following pagination; the rest is left behind a cursor
+export const DEFAULT_COLLECT_LIMITS = { maxPages: 500, maxBytes: 5 * 1024 * 1024 };
+
 export interface SearchResult {
     data: ScrapeResult[];
 }
 
+export interface BatchScrapeJob {
+    jobId: string;
+    invalidURLs?: string[];
+}
+
+export interface BatchScrapeStatus {
+    status: 'scraping' | 'completed' | 'failed' | 'cancelled';
+    total?: number;
+    completed?: number;
+    data?: ScrapeResult[];
+    // Index of the first entry in data within the whole batch
+    offset?: number;
+    // Opaque continuation token for the next batch of results
+    cursor?: string;
+}
+
+// URLs Firecrawl could not scrape; they are left out of the status data entirely
+export interface BatchScrapeErrors {
+    errors: { url: string; error: string; timestamp?: string }[];
+    robotsBlocked: string[];
+}
+
+export interface ExtractJob {
+    jobId: string;
+}
+
+export interface ExtractStatus {
+    status: 'processing' | 'completed' | 'failed' | 'cancelled';
+    data?: any;
+    error?: string;
+    warning?: string;
+}
+
+export interface MapResult {
+    links: string[];
+}
+
 export class FirecrawlClient {
     private baseUrl: string;
     private timeout: number;
+    private apiKey?: string;
+    private extraHeaders: Record<string, string>;
+    private retry: Required<RetryOptions>;
+    private circuitBreaker: CircuitBreaker;
 
-    constructor(baseUrl: string = 'http://localhost:3002', timeout: number = 60000) {
+    constructor(baseUrl: string = 'http://localhost:3002', timeout: number = 60000, options: FirecrawlClientOptions = {}) {
         this.baseUrl = baseUrl;
         this.timeout = timeout;
+        this.apiKey = options.apiKey;
+        this.extraHeaders = options.headers || {};
+        this.retry = {
+            maxRetries: options.retry?.maxRetries ?? 3,
+            baseDelayMs: options.retry?.baseDelayMs ?? 500,
+            maxDelayMs: options.retry?.maxDelayMs ?? 10000
+        };
+        this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    }
+
+    getBaseUrl(): string {
+        return this.baseUrl;
+    }
+
+    getCircuitStatus(): CircuitBreakerStatus {
+        return this.circuitBreaker.getStatus();
     }
 
     async scrapeUrl(url: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
@@ -112,26 +284,168 @@ export class FirecrawlClient {
                 );
             }
 
-            return response.data;
+            // v1 starts the crawl asynchronously and only returns the job ID
+            return response.data ?? { jobId: response.id, status: 'scraping', completed: false };
         } catch (error) {
             this.handleError(error, 'crawl website');
         }
     }
 
-    async getCrawlStatus(jobId: string): Promise<CrawlResult> {
+    async getCrawlStatus(jobId: string, options: CrawlStatusOptions = {}): Promise<CrawlResult> {
+        try {
+            const { response, pages, offset, cursor } = await this.collectPages(`/v1/crawl/${jobId}`, jobId, options, 'Get crawl status');
+
+            return {
+                jobId,
+                status: response.status,
+                data: pages,
+                completed: response.status === 'completed',
+                total: response.total,
+                current: response.completed,
+                offset,
+                ...(cursor && { cursor })
+            };
+        } catch (error) {
+            this.handleError(error, 'get crawl status');
+        }
+    }
+
+    async cancelCrawl(jobId: string): Promise<{ status: string }> {
+        try {
+            const response = await this.makeRequest(`/v1/crawl/${jobId}`, 'DELETE');
+
+            if (response.success === false) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `Cancel crawl failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            return { status: response.status || 'cancelled' };
+        } catch (error) {
+            this.handleError(error, 'cancel crawl');
+        }
+    }
+
+    async batchScrape(urls: string[], options: BatchScrapeOptions = {}): Promise<BatchScrapeJob> {
         try {
-            const response = await this.makeRequest(`/v1/crawl/${jobId}`, 'GET');
+            const response = await this.makeRequest('/v1/batch/scrape', 'POST', {
+                urls,
+                ...options
+            });
 
             if (!response.success) {
                 throw new McpError(
                     ErrorCode.InvalidRequest,
-                    `Get crawl status failed: ${response.error || 'Unknown error'}`
+                    `Batch scrape failed: ${response.error || 'Unknown error'}`
                 );
             }
 
-            return response.data;
+            return {
+                jobId: response.id,
+                ...(response.invalidURLs && { invalidURLs: response.invalidURLs })
+            };
         } catch (error) {
-            this.handleError(error, 'get crawl status');
+            this.handleError(error, 'start batch scrape');
+        }
+    }
+
+    async getBatchScrapeStatus(jobId: string, options: CrawlStatusOptions = {}): Promise<BatchScrapeStatus> {
+        try {
+            const { response, pages, offset, cursor } = await this.collectPages(`/v1/batch/scrape/${jobId}`, jobId, options, 'Get batch scrape status');
+
+            return {
+                status: response.status,
+                total: response.total,
+                completed: response.completed,
+                data: pages,
+                offset,
+                ...(cursor && { cursor })
+            };
+        } catch (error) {
+            this.handleError(error, 'get batch scrape status');
+        }
+    }
+
+    async getBatchScrapeErrors(jobId: string): Promise<BatchScrapeErrors> {
+        try {
+            const response = await this.makeRequest(`/v1/batch/scrape/${jobId}/errors`, 'GET');
+
+            if (response.success === false) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `Get batch scrape errors failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            return {
+                errors: response.errors || [],
+                robotsBlocked: response.robotsBlocked || []
+            };
+        } catch (error) {
+            this.handleError(error, 'get batch scrape errors');
+        }
+    }
+
+    async extract(urls: string[], options: ExtractOptions = {}): Promise<ExtractJob> {
+        try {
+            const response = await this.makeRequest('/v1/extract', 'POST', {
+                urls,
+                ...options
+            });
+
+            if (!response.success) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `Extract failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            return { jobId: response.id };
+        } catch (error) {
+            this.handleError(error, 'start extraction');
+        }
+    }
+
+    async getExtractStatus(jobId: string): Promise<ExtractStatus> {
+        try {
+            const response = await this.makeRequest(`/v1/extract/${jobId}`, 'GET');
+
+            if (!response.success) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `Get extract status failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            return {
+                status: response.status,
+                data: response.data,
+                ...(response.error && { error: response.error }),
+                ...(response.warning && { warning: response.warning })
+            };
+        } catch (error) {
+            this.handleError(error, 'get extract status');
+        }
+    }
+
+    async mapUrl(url: string, options: MapOptions = {}): Promise<MapResult> {
+        try {
+            const response = await this.makeRequest('/v1/map', 'POST', {
+                url,
+                ...options
+            });
+
+            if (!response.success) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `Map failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            return { links: response.links || [] };
+        } catch (error) {
+            this.handleError(error, 'map URL');
         }
     }
 
@@ -156,6 +470,7 @@ export class FirecrawlClient {
         try {
             const response = await fetch(`${this.baseUrl}/test`, {
                 method: 'GET',
+                headers: this.requestHeaders(),
                 signal: AbortSignal.timeout(5000)
             });
             return response.ok;
@@ -164,21 +479,68 @@ export class FirecrawlClient {
         }
     }
 
-    private async makeRequest(endpoint: string, method: 'GET' | 'POST', body?: any): Promise<any> {
+    private async makeRequest(endpoint: string, method: HttpMethod, body?: any): Promise<any> {
+        if (!this.circuitBreaker.canRequest()) {
+            const status = this.circuitBreaker.getStatus();
+            throw new McpError(
+                ErrorCode.InternalError,
+                `Firecrawl unavailable: ${status.consecutiveFailures} consecutive requests failed ` +
+                `(last error: ${status.lastError || 'unknown'}). Retrying in ${Math.ceil(this.circuitBreaker.retryInMs() / 1000)}s.`
+            );
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await this.sendRequest(endpoint, method, body);
+                this.circuitBreaker.recordSuccess();
+                return result;
+            } catch (error) {
+                const retryable = this.isRetryable(error, method);
+                if (retryable && attempt < this.retry.maxRetries) {
+                    await this.delay(this.backoffDelay(attempt, error));
+                    continue;
+                }
+
+                // Only availability problems count against the circuit; a 400 means Firecrawl is up
+                const unavailable = !(error instanceof FirecrawlHttpError) || error.status >= 500 || error.status === 429;
+                if (unavailable) {
+                    this.circuitBreaker.recordFailure(error instanceof Error ? error.message : String(error));
+                } else {
+                    this.circuitBreaker.recordSuccess();
+                }
+                throw error;
+            }
+        }
+    }
+
+    private async sendRequest(endpoint: string, method: HttpMethod, body?: any): Promise<any> {
         const url = `${this.baseUrl}${endpoint}`;
         const options: RequestInit = {
             method,
             headers: {
                 'Content-Type': 'application/json',
+                ...this.requestHeaders()
             },
             signal: AbortSignal.timeout(this.timeout)
         };
 
-        if (body && method === 'POST') {
+        if (body && method !== 'GET' && method !== 'DELETE') {
             options.body = JSON.stringify(body);
         }
 
-        const response = await fetch(url, options);
+        const labels = { method, endpoint: endpointLabel(endpoint) };
+        const startedAt = Date.now();
+        let response: Response;
+        try {
+            response = await fetch(url, options);
+        } catch (error) {
+            const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+            upstreamResponses.inc({ ...labels, status: timedOut ? 'timeout' : 'network_error' });
+            throw error;
+        } finally {
+            upstreamDuration.observe(labels, (Date.now() - startedAt) / 1000);
+        }
+        upstreamResponses.inc({ ...labels, status: String(response.status) });
         
         if (!response.ok) {
             const errorText = await response.text();
@@ -191,13 +553,135 @@ export class FirecrawlClient {
                 errorMessage = errorText || `HTTP ${response.status}`;
             }
             
+            throw new FirecrawlHttpError(
+                response.status,
+                `Firecrawl API error (${response.status}): ${errorMessage}`,
+                this.parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+
+        return await response.json();
+    }
+
+    private requestHeaders(): Record<string, string> {
+        return {
+            ...this.extraHeaders,
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+        };
+    }
+
+    private isRetryable(error: unknown, method: HttpMethod): boolean {
+        if (error instanceof FirecrawlHttpError) {
+            return IDEMPOTENT_METHODS.includes(method)
+                ? RETRYABLE_STATUS_CODES.includes(error.status)
+                : REFUSED_STATUS_CODES.includes(error.status);
+        }
+        // Network errors and timeouts: the request may have reached Firecrawl, so only repeat safe methods
+        return IDEMPOTENT_METHODS.includes(method);
+    }
+
+    private backoffDelay(attempt: number, error: unknown): number {
+        if (error instanceof FirecrawlHttpError && error.retryAfterMs !== undefined) {
+            return Math.min(error.retryAfterMs, this.retry.maxDelayMs);
+        }
+        // Exponential backoff with full jitter
+        const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+        return Math.random() * ceiling;
+    }
+
+    private parseRetryAfter(header: string | null): number | undefined {
+        if (!header) {
+            return undefined;
+        }
+        const seconds = Number(header);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(header);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    // Reads one status page, or follows `next` until the caps are hit, for crawl and batch scrape jobs alike
+    private async collectPages(basePath: string, jobId: string, options: CrawlStatusOptions, operation: string) {
+        let endpoint = options.cursor
+            ? this.decodeCrawlCursor(basePath, jobId, options.cursor)
+            : basePath;
+        const offset = this.skipFromEndpoint(endpoint);
+        const maxPages = options.maxPages ?? Infinity;
+        const maxBytes = options.maxBytes ?? Infinity;
+
+        const pages: ScrapeResult[] = [];
+        let bytes = 0;
+        let response: any;
+
+        while (true) {
+            response = await this.makeRequest(endpoint, 'GET');
+
+            if (response.success === false) {
+                throw new McpError(
+                    ErrorCode.InvalidRequest,
+                    `${operation} failed: ${response.error || 'Unknown error'}`
+                );
+            }
+
+            const batch: ScrapeResult[] = response.data || [];
+            pages.push(...batch);
+            bytes += JSON.stringify(batch).length;
+
+            if (!options.followNext || !response.next || pages.length >= maxPages || bytes >= maxBytes) {
+                break;
+            }
+            endpoint = this.endpointFromNextUrl(basePath, jobId, response.next);
+        }
+
+        const cursor = response.next
+            ? this.encodeCrawlCursor(jobId, this.endpointFromNextUrl(basePath, jobId, response.next))
+            : undefined;
+        return { response, pages, offset, cursor };
+    }
+
+    private endpointFromNextUrl(basePath: string, jobId: string, next: string): string {
+        const nextUrl = new URL(next, this.baseUrl);
+        const endpoint = `${nextUrl.pathname}${nextUrl.search}`;
+        if (!this.isJobEndpoint(basePath, endpoint)) {
             throw new McpError(
                 ErrorCode.InternalError,
-                `Firecrawl API error (${response.status}): ${errorMessage}`
+                `Unexpected pagination URL for job ${jobId}: ${next}`
             );
         }
+        return endpoint;
+    }
+
+    private encodeCrawlCursor(jobId: string, endpoint: string): string {
+        return Buffer.from(JSON.stringify({ jobId, endpoint })).toString('base64url');
+    }
+
+    private decodeCrawlCursor(basePath: string, jobId: string, cursor: string): string {
+        let decoded: { jobId?: string; endpoint?: string };
+        try {
+            decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+        } catch {
+            throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+        }
 
-        return await response.json();
+        if (decoded.jobId !== jobId || typeof decoded.endpoint !== 'string' || !this.isJobEndpoint(basePath, decoded.endpoint)) {
+            throw new McpError(ErrorCode.InvalidParams, `Cursor does not belong to job ${jobId}`);
+        }
+        return decoded.endpoint;
+    }
+
+    // The job's own status path, optionally with a query string; not a sibling such as /v1/crawl/<id>x or /<id>/errors
+    private isJobEndpoint(basePath: string, endpoint: string): boolean {
+        return endpoint === basePath || endpoint.startsWith(`${basePath}?`);
+    }
+
+    private skipFromEndpoint(endpoint: string): number {
+        const skip = new URL(endpoint, this.baseUrl).searchParams.get('skip');
+        return skip ? parseInt(skip, 10) || 0 : 0;
     }
 
     private handleError(error: unknown, operation: string): never {
@@ -216,7 +700,9 @@ export class FirecrawlClient {
             if (error.message.includes('fetch')) {
                 throw new McpError(
                     ErrorCode.InternalError,
-                    `Unable to connect to Firecrawl server at ${this.baseUrl}. Make sure Firecrawl is running locally.`
+                    `Unable to connect to Firecrawl server at ${this.baseUrl}. ${this.apiKey
+                        ? 'Check the API URL and that the server is reachable.'
+                        : 'Make sure Firecrawl is running locally.'}`
                 );
             }
             
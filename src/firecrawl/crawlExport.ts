@@ -0,0 +1,238 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { pipeline } from 'stream/promises';
+import { stringify as stringifyYaml } from 'yaml';
+import { ScrapeResult } from './client.js';
+
+export interface CrawlExportConfig {
+    // Root that every export is written under (default: ~/firecrawl-exports)
+    directory?: string;
+}
+
+export type ExportFormat = 'markdown' | 'jsonl' | 'single';
+
+export interface ExportRequest {
+    jobId: string;
+    format: ExportFormat;
+    // Subdirectory of the root to write into (default: the job ID)
+    subdirectory?: string;
+    // Pages one batch at a time, so a large crawl is never held in memory as a whole
+    batches: AsyncIterable<ScrapeResult[]>;
+}
+
+export interface ExportSummary {
+    // Relative to the export root, which isn't revealed to clients
+    directory: string;
+    files: string[];
+    index?: string;
+    skipped: { url?: string; reason: string }[];
+}
+
+const MAX_SEGMENT_CHARS = 120;
+
+export class ExportPathError extends Error {}
+
+export function defaultExportDirectory(): string {
+    return join(homedir(), 'firecrawl-exports');
+}
+
+// Rejects anything that would resolve outside the root, such as ../ segments or absolute paths
+export function resolveInside(root: string, ...parts: string[]): string {
+    const base = resolve(root);
+    const target = resolve(base, ...parts);
+    const rel = relative(base, target);
+    if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+        throw new ExportPathError(`Path ${join(...parts)} is outside the export directory`);
+    }
+    return target;
+}
+
+function sanitizeSegment(segment: string): string {
+    let decoded = segment;
+    try {
+        decoded = decodeURIComponent(segment);
+    } catch {
+        // Keep malformed escapes as they are
+    }
+    const cleaned = decoded.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').replace(/^\.+$/, '_').trim();
+    return (cleaned || '_').slice(0, MAX_SEGMENT_CHARS);
+}
+
+/**
+ * Maps a page URL to a relative .md path that mirrors it: host, then path
+ * segments, with directory URLs becoming index.md. Query strings get a short
+ * hash suffix so ?page=1 and ?page=2 don't overwrite each other.
+ */
+export function urlToRelativePath(url: string): string {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/').filter(Boolean).map(sanitizeSegment);
+    if (parsed.pathname.endsWith('/') || segments.length === 0) {
+        segments.push('index');
+    }
+
+    let file = segments.pop()!.replace(/\.(html?|php|aspx?|md)$/i, '');
+    if (parsed.search) {
+        file += `-${createHash('sha256').update(parsed.search).digest('hex').slice(0, 8)}`;
+    }
+    return join(sanitizeSegment(parsed.host), ...segments, `${file}.md`);
+}
+
+function frontMatter(fields: Record<string, unknown>): string {
+    const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== null));
+    return `---\n${stringifyYaml(defined).trimEnd()}\n---\n\n`;
+}
+
+function pageUrl(page: ScrapeResult): string | undefined {
+    return page.metadata?.sourceURL;
+}
+
+async function* pagesOf(request: ExportRequest): AsyncIterable<ScrapeResult> {
+    for await (const batch of request.batches) {
+        yield* batch;
+    }
+}
+
+export class CrawlExporter {
+    private root: string;
+
+    constructor(config: CrawlExportConfig = {}) {
+        this.root = resolve(config.directory || defaultExportDirectory());
+    }
+
+    get directory(): string {
+        return this.root;
+    }
+
+    async export(request: ExportRequest): Promise<ExportSummary> {
+        const directory = resolveInside(this.root, request.subdirectory || request.jobId);
+        await fs.mkdir(directory, { recursive: true });
+        await this.assertRealPathInside(directory);
+
+        const summary = request.format === 'jsonl' ? await this.writeJsonl(directory, request)
+            : request.format === 'single' ? await this.writeSingle(directory, request)
+            : await this.writeMarkdownTree(directory, request);
+        return { ...summary, directory: relative(this.root, directory) || '.' };
+    }
+
+    private async writeMarkdownTree(directory: string, request: ExportRequest): Promise<ExportSummary> {
+        const files: string[] = [];
+        const skipped: ExportSummary['skipped'] = [];
+        const used = new Set<string>();
+        const entries: { title?: string; url: string; path: string }[] = [];
+
+        for await (const page of pagesOf(request)) {
+            const url = pageUrl(page);
+            if (!url || page.markdown === undefined) {
+                skipped.push({ url, reason: url ? 'no markdown content' : 'no source URL' });
+                continue;
+            }
+
+            let path: string;
+            try {
+                path = this.uniquePath(urlToRelativePath(url), used);
+            } catch {
+                skipped.push({ url, reason: 'invalid URL' });
+                continue;
+            }
+
+            await this.writeFile(directory, path, frontMatter({ title: page.metadata?.title, url, ...page.metadata, crawl_id: request.jobId }) + page.markdown);
+            files.push(path);
+            entries.push({ title: page.metadata?.title, url, path });
+        }
+
+        const index = 'index.md';
+        const lines = entries.map(entry =>
+            `- [${(entry.title || entry.url).replace(/[[\]]/g, '\\$&')}](${entry.path.split(sep).map(encodeURIComponent).join('/')}) - ${entry.url}`);
+        await this.writeFile(
+            directory,
+            index,
+            frontMatter({ crawl_id: request.jobId, exported_at: new Date().toISOString(), pages: entries.length }) +
+                `# Crawl ${request.jobId}\n\n${lines.join('\n')}\n`
+        );
+
+        return { directory, files, index, skipped };
+    }
+
+    private async writeJsonl(directory: string, request: ExportRequest): Promise<ExportSummary> {
+        const skipped: ExportSummary['skipped'] = [];
+        const file = 'pages.jsonl';
+        const target = await this.writeFile(directory, file, '');
+        for await (const batch of request.batches) {
+            const lines: string[] = [];
+            for (const page of batch) {
+                const url = pageUrl(page);
+                if (page.markdown === undefined) {
+                    skipped.push({ url, reason: 'no markdown content' });
+                    continue;
+                }
+                lines.push(`${JSON.stringify({ url, title: page.metadata?.title, metadata: page.metadata, markdown: page.markdown })}\n`);
+            }
+            await fs.appendFile(target, lines.join(''), 'utf-8');
+        }
+        return { directory, files: [file], skipped };
+    }
+
+    // The page count goes in the front matter, so the sections are written to a part file first
+    private async writeSingle(directory: string, request: ExportRequest): Promise<ExportSummary> {
+        const skipped: ExportSummary['skipped'] = [];
+        const file = `${sanitizeSegment(request.jobId)}.md`;
+        const part = await this.writeFile(directory, `${file}.part`, '');
+        let sections = 0;
+        try {
+            for await (const page of pagesOf(request)) {
+                const url = pageUrl(page);
+                if (page.markdown === undefined) {
+                    skipped.push({ url, reason: 'no markdown content' });
+                    continue;
+                }
+                const title = page.metadata?.title || url || `Page ${sections + 1}`;
+                await fs.appendFile(
+                    part,
+                    `${sections > 0 ? '\n---\n\n' : ''}# ${title}\n\n${url ? `Source: ${url}\n\n` : ''}${page.markdown.trim()}\n`,
+                    'utf-8'
+                );
+                sections++;
+            }
+
+            const target = await this.writeFile(
+                directory,
+                file,
+                frontMatter({ crawl_id: request.jobId, exported_at: new Date().toISOString(), pages: sections })
+            );
+            await pipeline(createReadStream(part), createWriteStream(target, { flags: 'a' }));
+        } finally {
+            await fs.rm(part, { force: true });
+        }
+        return { directory, files: [file], skipped };
+    }
+
+    private uniquePath(path: string, used: Set<string>): string {
+        let candidate = path;
+        for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+            candidate = path.replace(/\.md$/, `-${n}.md`);
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    }
+
+    // Returns the checked path, which callers may append to afterwards
+    private async writeFile(directory: string, path: string, content: string): Promise<string> {
+        const target = resolveInside(directory, path);
+        await fs.mkdir(dirname(target), { recursive: true });
+        await this.assertRealPathInside(dirname(target));
+        const existing = await fs.lstat(target).catch(() => undefined);
+        if (existing?.isSymbolicLink()) {
+            throw new ExportPathError(`Refusing to write through symlink ${path}`);
+        }
+        await fs.writeFile(target, content, 'utf-8');
+        return target;
+    }
+
+    // A symlink inside the root could still point elsewhere, so the resolved directory is checked too
+    private async assertRealPathInside(directory: string): Promise<void> {
+        const realRoot = await fs.realpath(this.root);
+        resolveInside(realRoot, relative(realRoot, await fs.realpath(directory)));
+    }
+}
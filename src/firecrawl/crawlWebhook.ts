@@ -0,0 +1,214 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CrawlWebhook, ScrapeResult } from './client.js';
+import { ResultStore } from './resultStore.js';
+import { logger } from '../logging/logger.js';
+import { webhookEvents } from '../metrics/serverMetrics.js';
+import { readBody } from '../transports/readBody.js';
+
+export interface CrawlWebhookConfig {
+    enabled?: boolean;
+    // Shared secret Firecrawl sends back in the X-Firecrawl-MCP-Secret header (default: random per start)
+    secret?: string;
+    // Address Firecrawl should call, when it can't reach this server at the address it listens on
+    publicUrl?: string;
+    // Listener used under the stdio transport; the HTTP transport serves the endpoint itself
+    port?: number;
+    host?: string;
+}
+
+export type CrawlEventType = 'crawl.started' | 'crawl.page' | 'crawl.completed' | 'crawl.failed';
+
+export interface CrawlUpdate {
+    jobId: string;
+    type: CrawlEventType;
+    // MCP session that started the crawl; undefined under stdio and stateless HTTP
+    sessionId?: string;
+    // Page numbers added to the stored crawl by this event
+    pageNumbers: number[];
+    error?: string;
+}
+
+// Firecrawl v1 webhook payload
+interface WebhookPayload {
+    success?: boolean;
+    type?: string;
+    id?: string;
+    data?: ScrapeResult[];
+    error?: string;
+}
+
+export const WEBHOOK_PATH = '/webhooks/firecrawl';
+export const WEBHOOK_SECRET_HEADER = 'x-firecrawl-mcp-secret';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+// Crawls that never report completion shouldn't accumulate forever
+const MAX_TRACKED_JOBS = 1000;
+const EVENT_TYPES: CrawlEventType[] = ['crawl.started', 'crawl.page', 'crawl.completed', 'crawl.failed'];
+
+const log = logger.child('webhook');
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Receives Firecrawl crawl webhooks, records the pages in the result store and
+ * tells listeners which session the crawl belongs to, so updates can be pushed
+ * to the client that started it instead of waiting for it to poll.
+ */
+export class CrawlWebhookReceiver {
+    private secret: string;
+    private publicUrl?: string;
+    private jobs = new Map<string, { sessionId?: string; owner?: string }>();
+    private listeners = new Set<(update: CrawlUpdate) => void>();
+    private server?: http.Server;
+
+    constructor(private resultStore: ResultStore, private config: CrawlWebhookConfig = {}) {
+        this.secret = config.secret || randomBytes(24).toString('hex');
+        this.publicUrl = config.publicUrl;
+    }
+
+    // URL Firecrawl posts to; undefined until the endpoint is being served
+    get url(): string | undefined {
+        return this.publicUrl;
+    }
+
+    // Called by the HTTP transport, which serves WEBHOOK_PATH on its own port
+    useBaseUrl(baseUrl: string): void {
+        this.publicUrl = this.config.publicUrl || `${baseUrl.replace(/\/+$/, '')}${WEBHOOK_PATH}`;
+    }
+
+    // Starts a small listener for the stdio transport, which has no HTTP server of its own
+    async listen(): Promise<void> {
+        const host = this.config.host || '127.0.0.1';
+        const server = http.createServer((req, res) => {
+            if (req.method === 'POST' && req.url?.split('?')[0] === WEBHOOK_PATH) {
+                this.handleRequest(req, res);
+            } else {
+                res.writeHead(404).end();
+            }
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.config.port || 0, host, () => resolve());
+        });
+        // Webhooks shouldn't keep the process alive once stdio closes
+        server.unref();
+        this.server = server;
+
+        const { port } = server.address() as AddressInfo;
+        this.useBaseUrl(`http://${host}:${port}`);
+        log.info(`Listening for crawl webhooks on ${this.publicUrl}`);
+    }
+
+    close(): void {
+        this.server?.close();
+    }
+
+    // Webhook option for a new crawl, carrying the secret as a header
+    webhookFor(): CrawlWebhook | undefined {
+        if (!this.publicUrl) {
+            return undefined;
+        }
+        return {
+            url: this.publicUrl,
+            headers: { [WEBHOOK_SECRET_HEADER]: this.secret },
+            events: ['started', 'page', 'completed', 'failed']
+        };
+    }
+
+    // Remembers which session started a crawl so its updates go back to that client,
+    // and which result store owner its pages are recorded under
+    trackJob(jobId: string, sessionId?: string, owner?: string): void {
+        this.jobs.set(jobId, { sessionId, owner });
+        if (this.jobs.size > MAX_TRACKED_JOBS) {
+            this.jobs.delete(this.jobs.keys().next().value as string);
+        }
+    }
+
+    onUpdate(listener: (update: CrawlUpdate) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const header = req.headers[WEBHOOK_SECRET_HEADER];
+        const provided = Array.isArray(header) ? header[0] : header;
+        if (!provided || !timingSafeEqual(digest(provided), digest(this.secret))) {
+            webhookEvents.inc({ type: 'rejected' });
+            this.writeJson(res, 401, { success: false, error: 'Invalid webhook secret' });
+            return;
+        }
+
+        let payload: WebhookPayload;
+        try {
+            payload = JSON.parse(await readBody(req, MAX_BODY_BYTES));
+        } catch {
+            this.writeJson(res, 400, { success: false, error: 'Invalid webhook payload' });
+            return;
+        }
+
+        const type = payload.type as CrawlEventType;
+        if (!payload.id || !EVENT_TYPES.includes(type)) {
+            // Acknowledge so Firecrawl doesn't retry events this server has no use for
+            this.writeJson(res, 200, { success: true, ignored: true });
+            return;
+        }
+
+        this.writeJson(res, 200, { success: true });
+        webhookEvents.inc({ type });
+        this.record(payload.id, type, payload);
+    }
+
+    private record(jobId: string, type: CrawlEventType, payload: WebhookPayload): void {
+        // Without a known owner the pages couldn't be shown to anyone; a client that reads the crawl later fetches it itself
+        const job = this.jobs.get(jobId);
+        if (!job) {
+            log.debug(`Ignoring ${type} for untracked crawl`, { jobId });
+            return;
+        }
+        // Logged under the session that started the crawl, as if it had polled for the update itself
+        logger.runWithContext({ sessionId: job.sessionId }, () => this.apply(jobId, type, payload, job));
+    }
+
+    private apply(jobId: string, type: CrawlEventType, payload: WebhookPayload, job: { sessionId?: string; owner?: string }): void {
+        let pageNumbers: number[] = [];
+        if (type === 'crawl.page') {
+            pageNumbers = this.resultStore.recordCrawlPages(jobId, payload.data || [], job.owner);
+        } else if (type === 'crawl.completed') {
+            this.resultStore.recordCrawl({ jobId, status: 'completed', completed: true }, undefined, job.owner);
+        } else if (type === 'crawl.failed') {
+            this.resultStore.recordCrawl({ jobId, status: 'failed' }, undefined, job.owner);
+        } else {
+            this.resultStore.recordCrawl({ jobId, status: 'scraping' }, undefined, job.owner);
+        }
+        log.debug(`Received ${type}`, { jobId, pages: pageNumbers.length });
+
+        const update: CrawlUpdate = {
+            jobId,
+            type,
+            sessionId: job.sessionId,
+            pageNumbers,
+            ...(payload.error && { error: payload.error })
+        };
+        if (type === 'crawl.completed' || type === 'crawl.failed') {
+            this.jobs.delete(jobId);
+        }
+
+        for (const listener of this.listeners) {
+            try {
+                listener(update);
+            } catch (error) {
+                log.warn('Crawl update listener failed', { error, jobId });
+            }
+        }
+    }
+
+    private writeJson(res: http.ServerResponse, status: number, body: object): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,77 @@
+// Minimal JSON Schema checker for structured extraction results.
+// Supports type, properties, required, items and enum; other keywords are ignored.
+
+export interface SchemaMismatch {
+    path: string;
+    message: string;
+}
+
+type JsonSchema = Record<string, any>;
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+    const actual = typeOf(value);
+    if (expected === 'number') return actual === 'number' || actual === 'integer';
+    return actual === expected;
+}
+
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): SchemaMismatch[] {
+    if (!schema || typeof schema !== 'object') {
+        return [];
+    }
+
+    const mismatches: SchemaMismatch[] = [];
+
+    if (schema.type !== undefined) {
+        const expectedTypes: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!expectedTypes.some(expected => matchesType(value, expected))) {
+            mismatches.push({
+                path,
+                message: `expected ${expectedTypes.join(' | ')}, got ${typeOf(value)}`
+            });
+            // Nested checks are meaningless once the type is wrong
+            return mismatches;
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((allowed: unknown) => JSON.stringify(allowed) === JSON.stringify(value))) {
+        mismatches.push({
+            path,
+            message: `value ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`
+        });
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required) {
+                if (record[key] === undefined) {
+                    mismatches.push({ path: `${path}.${key}`, message: 'required field is missing' });
+                }
+            }
+        }
+
+        if (schema.properties && typeof schema.properties === 'object') {
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                if (record[key] !== undefined) {
+                    mismatches.push(...validateAgainstSchema(record[key], propertySchema as JsonSchema, `${path}.${key}`));
+                }
+            }
+        }
+    }
+
+    if (Array.isArray(value) && schema.items && typeof schema.items === 'object') {
+        value.forEach((item, index) => {
+            mismatches.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+        });
+    }
+
+    return mismatches;
+}
@@ -0,0 +1,189 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface ProcessLogConfig {
+    // Lines kept in memory per process
+    maxLines?: number;
+    // Also append each process's output to <directory>/<process>.log when set
+    directory?: string;
+    maxFileBytes?: number;
+    // Rotated files kept next to the active one (<process>.log.1, .2, ...)
+    maxFiles?: number;
+}
+
+export interface LogEntry {
+    timestamp: string;
+    process: string;
+    level: LogLevel;
+    // 'supervisor' entries record state changes such as crashes and restarts
+    stream: 'stdout' | 'stderr' | 'supervisor';
+    message: string;
+}
+
+export interface LogQuery {
+    process?: string;
+    // Minimum level
+    level?: LogLevel;
+    since?: Date;
+    until?: Date;
+    contains?: string;
+    limit?: number;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const MAX_LINE_CHARS = 4000;
+const LEVEL_PATTERN = /\b(debug|verbose|info|warn|warning|error|fatal)\b/i;
+
+// Firecrawl logs through winston, so most lines carry their level near the start
+function detectLevel(line: string, stream: LogEntry['stream']): LogLevel {
+    if (line.startsWith('{')) {
+        try {
+            const parsed = JSON.parse(line);
+            if (typeof parsed.level === 'string') {
+                return normalizeLevel(parsed.level) ?? (stream === 'stderr' ? 'error' : 'info');
+            }
+        } catch {
+            // Not JSON after all
+        }
+    }
+    const match = LEVEL_PATTERN.exec(line.slice(0, 80));
+    return (match && normalizeLevel(match[1])) || (stream === 'stderr' ? 'error' : 'info');
+}
+
+function normalizeLevel(level: string): LogLevel | undefined {
+    switch (level.toLowerCase()) {
+        case 'debug':
+        case 'verbose':
+            return 'debug';
+        case 'info':
+            return 'info';
+        case 'warn':
+        case 'warning':
+            return 'warn';
+        case 'error':
+        case 'fatal':
+            return 'error';
+        default:
+            return undefined;
+    }
+}
+
+// Bounded per-process log buffers with optional size-rotated files on disk
+export class ProcessLogStore {
+    private buffers = new Map<string, LogEntry[]>();
+    private partialLines = new Map<string, string>();
+    private fileSizes = new Map<string, number>();
+    private maxLines: number;
+    private directory?: string;
+    private maxFileBytes: number;
+    private maxFiles: number;
+
+    constructor(config: ProcessLogConfig = {}) {
+        this.maxLines = config.maxLines ?? 1000;
+        this.directory = config.directory;
+        this.maxFileBytes = config.maxFileBytes ?? 5 * 1024 * 1024;
+        this.maxFiles = config.maxFiles ?? 3;
+    }
+
+    // Accepts raw output chunks; a line split across chunks is held until it completes
+    append(process: string, stream: LogEntry['stream'], chunk: string): void {
+        const key = `${process}:${stream}`;
+        const text = (this.partialLines.get(key) || '') + chunk;
+        const lines = text.split(/\r?\n/);
+        this.partialLines.set(key, lines.pop() || '');
+
+        for (const line of lines) {
+            if (line.trim()) {
+                this.record(process, stream, line);
+            }
+        }
+    }
+
+    // Records a supervisor message, such as a crash or restart, alongside the process output
+    note(process: string, level: LogLevel, message: string): void {
+        this.record(process, 'supervisor', message, level);
+    }
+
+    query(query: LogQuery = {}): LogEntry[] {
+        const minLevel = LEVEL_ORDER[query.level || 'debug'];
+        const since = query.since?.toISOString();
+        const until = query.until?.toISOString();
+        const contains = query.contains?.toLowerCase();
+
+        const entries = [...this.buffers.entries()]
+            .filter(([process]) => !query.process || process === query.process)
+            .flatMap(([, buffer]) => buffer)
+            .filter(entry =>
+                LEVEL_ORDER[entry.level] >= minLevel &&
+                (!since || entry.timestamp >= since) &&
+                (!until || entry.timestamp <= until) &&
+                (!contains || entry.message.toLowerCase().includes(contains)))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+        // Keep the most recent matches
+        return query.limit ? entries.slice(-query.limit) : entries;
+    }
+
+    private record(process: string, stream: LogEntry['stream'], line: string, level?: LogLevel): void {
+        const message = line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}... [truncated]` : line;
+        const entry: LogEntry = {
+            timestamp: new Date().toISOString(),
+            process,
+            level: level || detectLevel(message, stream),
+            stream,
+            message
+        };
+
+        let buffer = this.buffers.get(process);
+        if (!buffer) {
+            buffer = [];
+            this.buffers.set(process, buffer);
+        }
+        buffer.push(entry);
+        if (buffer.length > this.maxLines) {
+            buffer.splice(0, buffer.length - this.maxLines);
+        }
+
+        this.writeToFile(entry);
+    }
+
+    private writeToFile(entry: LogEntry): void {
+        if (!this.directory) {
+            return;
+        }
+
+        try {
+            const file = join(this.directory, `${entry.process}.log`);
+            if (!this.fileSizes.has(file)) {
+                mkdirSync(this.directory, { recursive: true });
+                this.fileSizes.set(file, existsSync(file) ? statSync(file).size : 0);
+            }
+
+            const line = `${entry.timestamp} [${entry.level}] [${entry.stream}] ${entry.message}\n`;
+            if (this.fileSizes.get(file)! + line.length > this.maxFileBytes) {
+                this.rotate(file);
+            }
+            appendFileSync(file, line);
+            this.fileSizes.set(file, this.fileSizes.get(file)! + Buffer.byteLength(line));
+        } catch {
+            // Disk logging is best effort; the in-memory buffer still has the line
+        }
+    }
+
+    private rotate(file: string): void {
+        rmSync(`${file}.${this.maxFiles}`, { force: true });
+        for (let i = this.maxFiles - 1; i >= 1; i--) {
+            if (existsSync(`${file}.${i}`)) {
+                renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+            }
+        }
+        if (this.maxFiles > 0 && existsSync(file)) {
+            renameSync(file, `${file}.1`);
+        } else {
+            rmSync(file, { force: true });
+        }
+        this.fileSizes.set(file, 0);
+    }
+}
@@ -1,48 +1,144 @@
 import { spawn, ChildProcess } from 'child_process';
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { ProcessLogConfig, ProcessLogStore } from './processLogs.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child('process-manager');
 
 export interface FirecrawlConfig {
     redisUrl?: string;
     port?: number;
     firecrawlPath?: string;
+    // Consecutive crashes restarted before a process is given up on
+    maxRestarts?: number;
+    restartBaseDelayMs?: number;
+    restartMaxDelayMs?: number;
+    logs?: ProcessLogConfig;
+}
+
+export type ProcessName = 'redis' | 'workers' | 'api';
+export type ProcessState = 'starting' | 'ready' | 'crashed' | 'backoff' | 'stopped';
+
+export interface ProcessStatus {
+    name: ProcessName;
+    state: ProcessState;
+    // False when Redis was already running and isn't owned by this server
+    managed: boolean;
+    pid?: number;
+    restarts: number;
+    // Set once maxRestarts consecutive crashes have happened; the process stays crashed
+    gaveUp: boolean;
+    since: string;
+    lastExitCode?: number | null;
+    lastSignal?: string | null;
+    lastError?: string;
+    nextRestartAt?: string;
 }
 
+export interface ProcessEvent {
+    process: ProcessName;
+    state: ProcessState;
+    previousState: ProcessState;
+    status: ProcessStatus;
+    message?: string;
+}
+
+export type ProcessEventListener = (event: ProcessEvent) => void;
+
+interface SupervisedProcess {
+    label: string;
+    status: ProcessStatus;
+    child?: ChildProcess;
+    consecutiveCrashes: number;
+    restartTimer?: NodeJS.Timeout;
+    stableTimer?: NodeJS.Timeout;
+}
+
+interface LaunchSpec {
+    command: string;
+    args: string[];
+    env?: NodeJS.ProcessEnv;
+    // How readiness is detected: a line of output, the spawn itself, or the API answering /test
+    readyWhen: { output: string } | 'spawned' | 'http';
+    startTimeoutMs: number;
+}
+
+/**
+ * Starts Redis, the Firecrawl workers and the API server, then supervises them.
+ * Each process moves through starting -> ready, and on an unexpected exit to
+ * crashed -> backoff -> starting again, with exponential backoff between
+ * restarts. After maxRestarts consecutive crashes the process is left crashed.
+ * A process that stays up for a minute has its crash count reset.
+ */
 export class FirecrawlProcessManager {
-    private redisProcess?: ChildProcess;
-    private workerProcess?: ChildProcess;
-    private apiProcess?: ChildProcess;
+    private static readonly STABLE_AFTER_MS = 60000;
+
+    private processes: Record<ProcessName, SupervisedProcess>;
+    private listeners = new Set<ProcessEventListener>();
+    private logs: ProcessLogStore;
     private config: FirecrawlConfig;
     private isShuttingDown = false;
+    // Crashes during start() fail startup instead of being restarted
+    private supervising = false;
 
     constructor(config: FirecrawlConfig = {}) {
         this.config = {
+            ...config,
             redisUrl: config.redisUrl || 'redis://localhost:6379',
             port: config.port || 3002,
             firecrawlPath: config.firecrawlPath || process.cwd(),
-            ...config
+            maxRestarts: config.maxRestarts ?? 5,
+            restartBaseDelayMs: config.restartBaseDelayMs ?? 1000,
+            restartMaxDelayMs: config.restartMaxDelayMs ?? 30000
+        };
+        this.logs = new ProcessLogStore(this.config.logs);
+        this.processes = {
+            redis: this.createProcess('redis', 'Redis'),
+            workers: this.createProcess('workers', 'Workers'),
+            api: this.createProcess('api', 'API Server')
         };
     }
 
+    onProcessEvent(listener: ProcessEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getLogs(): ProcessLogStore {
+        return this.logs;
+    }
+
+    getStatus(): ProcessStatus[] {
+        return Object.values(this.processes).map(proc => ({ ...proc.status }));
+    }
+
     async start(): Promise<void> {
-        console.log('Starting Firecrawl services...');
-        
+        log.info('Starting Firecrawl services...');
+        this.isShuttingDown = false;
+
         try {
             // Start Redis if not already running
             await this.startRedis();
-            
+
             // Wait a bit for Redis to be ready
             await this.delay(2000);
-            
+
             // Start Firecrawl workers
-            await this.startWorkers();
-            
-            // Start Firecrawl API server
-            await this.startApiServer();
-            
-            // Wait for services to be ready
-            await this.waitForServices();
-            
-            console.log('Firecrawl services started successfully');
+            log.info('Starting Firecrawl workers...');
+            await this.launch(this.processes.workers);
+
+            // Start Firecrawl API server and wait for it to answer
+            log.info('Starting Firecrawl API server...');
+            await this.launch(this.processes.api);
+
+            this.supervising = true;
+            // The workers count as ready once spawned, so they may already have died
+            for (const proc of Object.values(this.processes)) {
+                if (proc.status.state === 'crashed') {
+                    this.scheduleRestart(proc);
+                }
+            }
+            log.info('Firecrawl services started successfully');
         } catch (error) {
             await this.stop();
             throw error;
@@ -52,178 +148,285 @@ export class FirecrawlProcessManager {
     async stop(): Promise<void> {
         if (this.isShuttingDown) return;
         this.isShuttingDown = true;
-        
-        console.log('Stopping Firecrawl services...');
-        
-        const processes = [
-            { name: 'API Server', process: this.apiProcess },
-            { name: 'Workers', process: this.workerProcess },
-            { name: 'Redis', process: this.redisProcess }
-        ];
-
-        for (const { name, process } of processes) {
-            if (process && !process.killed) {
-                console.log(`Stopping ${name}...`);
-                process.kill('SIGTERM');
-                
+        this.supervising = false;
+
+        log.info('Stopping Firecrawl services...');
+
+        for (const proc of [this.processes.api, this.processes.workers, this.processes.redis]) {
+            clearTimeout(proc.restartTimer);
+            clearTimeout(proc.stableTimer);
+            proc.restartTimer = undefined;
+            proc.status.nextRestartAt = undefined;
+
+            const child = proc.child;
+            if (child && child.exitCode === null && child.signalCode === null) {
+                log.info(`Stopping ${proc.label}...`);
+                child.kill('SIGTERM');
+
                 // Wait for graceful shutdown, then force kill if needed
                 await new Promise<void>((resolve) => {
                     const timeout = setTimeout(() => {
-                        if (process && !process.killed) {
-                            console.log(`Force killing ${name}...`);
-                            process.kill('SIGKILL');
+                        if (child.exitCode === null && child.signalCode === null) {
+                            log.info(`Force killing ${proc.label}...`);
+                            child.kill('SIGKILL');
                         }
                         resolve();
                     }, 5000);
-                    
-                    process.on('exit', () => {
+
+                    child.on('exit', () => {
                         clearTimeout(timeout);
                         resolve();
                     });
                 });
             }
+            if (proc.status.managed && proc.status.state !== 'stopped') {
+                this.setState(proc, 'stopped');
+            }
         }
-        
-        console.log('Firecrawl services stopped');
+
+        log.info('Firecrawl services stopped');
     }
 
     private async startRedis(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            // First check if Redis is already running
+        // First check if Redis is already running
+        const alreadyRunning = await new Promise<boolean>((resolve) => {
             const testProcess = spawn('redis-cli', ['ping'], { stdio: 'pipe' });
-            
-            testProcess.on('exit', (code) => {
-                if (code === 0) {
-                    console.log('Redis is already running');
-                    resolve();
-                } else {
-                    // Start Redis server
-                    console.log('Starting Redis server...');
-                    this.redisProcess = spawn('redis-server', [], {
-                        stdio: ['ignore', 'pipe', 'pipe']
-                    });
+            testProcess.on('error', () => resolve(false));
+            testProcess.on('exit', (code) => resolve(code === 0));
+        });
 
-                    this.redisProcess.stdout?.on('data', (data) => {
-                        const output = data.toString();
-                        if (output.includes('Ready to accept connections')) {
-                            resolve();
-                        }
-                    });
+        const redis = this.processes.redis;
+        if (alreadyRunning) {
+            log.info('Redis is already running');
+            redis.status.managed = false;
+            this.setState(redis, 'ready');
+            return;
+        }
 
-                    this.redisProcess.on('error', (error) => {
-                        reject(new McpError(
-                            ErrorCode.InternalError,
-                            `Failed to start Redis: ${error.message}. Make sure Redis is installed.`
-                        ));
-                    });
+        log.info('Starting Redis server...');
+        await this.launch(redis);
+    }
 
-                    this.redisProcess.on('exit', (code) => {
-                        if (code !== 0 && !this.isShuttingDown) {
-                            reject(new McpError(
-                                ErrorCode.InternalError,
-                                `Redis exited with code ${code}`
-                            ));
-                        }
-                    });
+    private launchSpec(name: ProcessName): LaunchSpec {
+        const apiPath = `${this.config.firecrawlPath}/apps/api`;
+        switch (name) {
+            case 'redis':
+                return {
+                    command: 'redis-server',
+                    args: [],
+                    readyWhen: { output: 'Ready to accept connections' },
+                    startTimeoutMs: 10000
+                };
+            case 'workers':
+                return {
+                    command: process.execPath,
+                    args: [`${apiPath}/dist/src/services/queue-worker.js`],
+                    env: {
+                        ...process.env,
+                        REDIS_URL: this.config.redisUrl,
+                        PATH: process.env.PATH
+                    },
+                    readyWhen: 'spawned',
+                    startTimeoutMs: 10000
+                };
+            case 'api':
+                return {
+                    command: process.execPath,
+                    args: [`${apiPath}/dist/src/index.js`],
+                    env: {
+                        ...process.env,
+                        REDIS_URL: this.config.redisUrl,
+                        PORT: this.config.port?.toString(),
+                        PATH: process.env.PATH
+                    },
+                    readyWhen: 'http',
+                    startTimeoutMs: 30000
+                };
+        }
+    }
+
+    // Resolves once the process is ready; rejects if it exits or times out first
+    private launch(proc: SupervisedProcess): Promise<void> {
+        const spec = this.launchSpec(proc.status.name);
+        const seconds = spec.startTimeoutMs / 1000;
+
+        return new Promise((resolve, reject) => {
+            log.debug(`Starting ${proc.label}`, { command: spec.command, args: spec.args });
+            this.setState(proc, 'starting');
 
-                    // Timeout after 10 seconds
-                    setTimeout(() => {
-                        reject(new McpError(
-                            ErrorCode.InternalError,
-                            'Redis failed to start within 10 seconds'
-                        ));
-                    }, 10000);
+            const child = spawn(spec.command, spec.args, {
+                stdio: ['ignore', 'pipe', 'pipe'],
+                env: spec.env
+            });
+            proc.child = child;
+
+            let settled = false;
+            const settle = (error?: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(startTimer);
+                if (error) {
+                    proc.status.lastError = error.message;
+                    reject(error);
+                    return;
+                }
+                this.setState(proc, 'ready');
+                proc.stableTimer = setTimeout(() => {
+                    proc.consecutiveCrashes = 0;
+                }, FirecrawlProcessManager.STABLE_AFTER_MS);
+                proc.stableTimer.unref();
+                resolve();
+            };
+
+            const startTimer = setTimeout(() => {
+                settle(new McpError(
+                    ErrorCode.InternalError,
+                    `${proc.label} failed to start within ${seconds} seconds`
+                ));
+                child.kill('SIGTERM');
+            }, spec.startTimeoutMs);
+
+            // Output is captured rather than printed, since stdout carries the stdio protocol
+            child.stdout?.on('data', (data) => {
+                const output = data.toString();
+                this.logs.append(proc.status.name, 'stdout', output);
+                if (typeof spec.readyWhen === 'object' && output.includes(spec.readyWhen.output)) {
+                    settle();
                 }
             });
-        });
-    }
 
-    private async startWorkers(): Promise<void> {
-        console.log('Starting Firecrawl workers...');
-        
-        const apiPath = `${this.config.firecrawlPath}/apps/api`;
-        const workerScript = `${apiPath}/dist/src/services/queue-worker.js`;
-        console.log(`[Debug] Starting worker with script: ${workerScript}`);
-        this.workerProcess = spawn(process.execPath, [workerScript], {
-            stdio: ['ignore', 'pipe', 'pipe'],
-            env: {
-                ...process.env,
-                REDIS_URL: this.config.redisUrl,
-                PATH: process.env.PATH
-            }
-        });
+            child.stderr?.on('data', (data) => {
+                this.logs.append(proc.status.name, 'stderr', data.toString());
+            });
 
-        this.workerProcess.stdout?.on('data', (data) => {
-            console.log(`[Workers] ${data.toString().trim()}`);
-        });
+            child.on('spawn', () => {
+                proc.status.pid = child.pid;
+                if (spec.readyWhen === 'spawned') {
+                    settle();
+                } else if (spec.readyWhen === 'http') {
+                    this.waitForApi(child, () => settled).then(ready => ready && settle());
+                }
+            });
 
-        this.workerProcess.stderr?.on('data', (data) => {
-            console.error(`[Workers Error] ${data.toString().trim()}`);
-        });
+            // Reported instead of thrown: a throw here would take down the MCP server
+            child.on('error', (error) => {
+                const message = `Failed to start ${proc.label}: ${error.message}`;
+                settle(new McpError(ErrorCode.InternalError, message));
+                if (child.pid === undefined) {
+                    this.handleExit(proc, child, null, null, message);
+                }
+            });
 
-        this.workerProcess.on('error', (error) => {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to start Firecrawl workers: ${error.message}`
-            );
+            child.on('exit', (code, signal) => {
+                const message = signal ? `${proc.label} was killed by ${signal}` : `${proc.label} exited with code ${code}`;
+                settle(new McpError(ErrorCode.InternalError, message));
+                this.handleExit(proc, child, code, signal, message);
+            });
         });
     }
 
-    private async startApiServer(): Promise<void> {
-        console.log('Starting Firecrawl API server...');
-        
-        const apiPath = `${this.config.firecrawlPath}/apps/api`;
-        const apiScript = `${apiPath}/dist/src/index.js`;
-        console.log(`[Debug] Starting API with script: ${apiScript}`);
-        this.apiProcess = spawn(process.execPath, [apiScript], {
-            stdio: ['ignore', 'pipe', 'pipe'],
-            env: {
-                ...process.env,
-                REDIS_URL: this.config.redisUrl,
-                PORT: this.config.port?.toString(),
-                PATH: process.env.PATH
-            }
-        });
+    private handleExit(proc: SupervisedProcess, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null, message: string): void {
+        if (proc.child !== child) return;
+        proc.child = undefined;
+        proc.status.pid = undefined;
+        proc.status.lastExitCode = code;
+        proc.status.lastSignal = signal;
+        clearTimeout(proc.stableTimer);
 
-        this.apiProcess.stdout?.on('data', (data) => {
-            console.log(`[API] ${data.toString().trim()}`);
-        });
+        if (this.isShuttingDown) {
+            this.setState(proc, 'stopped');
+            return;
+        }
 
-        this.apiProcess.stderr?.on('data', (data) => {
-            console.error(`[API Error] ${data.toString().trim()}`);
-        });
+        proc.status.lastError = message;
+        this.setState(proc, 'crashed', message);
+        if (this.supervising) {
+            this.scheduleRestart(proc);
+        }
+    }
 
-        this.apiProcess.on('error', (error) => {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to start Firecrawl API server: ${error.message}`
-            );
-        });
+    private scheduleRestart(proc: SupervisedProcess): void {
+        const maxRestarts = this.config.maxRestarts!;
+        if (proc.consecutiveCrashes >= maxRestarts) {
+            proc.status.gaveUp = true;
+            const message = `${proc.label} crashed ${maxRestarts + 1} times in a row; not restarting`;
+            log.error(message);
+            this.logs.note(proc.status.name, 'error', message);
+            this.emit(proc, proc.status.state, message);
+            return;
+        }
+
+        const delayMs = Math.min(
+            this.config.restartBaseDelayMs! * 2 ** proc.consecutiveCrashes,
+            this.config.restartMaxDelayMs!
+        );
+        proc.consecutiveCrashes++;
+        proc.status.nextRestartAt = new Date(Date.now() + delayMs).toISOString();
+        this.setState(proc, 'backoff', `Restarting ${proc.label} in ${delayMs}ms`);
+
+        proc.restartTimer = setTimeout(() => {
+            proc.restartTimer = undefined;
+            proc.status.nextRestartAt = undefined;
+            proc.status.restarts++;
+            // A failed restart goes through handleExit, which schedules the next attempt
+            this.launch(proc).catch(() => undefined);
+        }, delayMs);
     }
 
-    private async waitForServices(): Promise<void> {
-        const maxAttempts = 30;
-        const delayMs = 1000;
-        
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    private createProcess(name: ProcessName, label: string): SupervisedProcess {
+        return {
+            label,
+            status: {
+                name,
+                state: 'stopped',
+                managed: true,
+                restarts: 0,
+                gaveUp: false,
+                since: new Date().toISOString()
+            },
+            consecutiveCrashes: 0
+        };
+    }
+
+    private setState(proc: SupervisedProcess, state: ProcessState, message?: string): void {
+        const previousState = proc.status.state;
+        this.logs.note(proc.status.name, state === 'crashed' ? 'error' : 'info', message || `${previousState} -> ${state}`);
+        proc.status.state = state;
+        proc.status.since = new Date().toISOString();
+        if (state === 'starting') {
+            proc.status.gaveUp = false;
+        }
+        this.emit(proc, previousState, message);
+    }
+
+    private emit(proc: SupervisedProcess, previousState: ProcessState, message?: string): void {
+        const event: ProcessEvent = {
+            process: proc.status.name,
+            state: proc.status.state,
+            previousState,
+            status: { ...proc.status },
+            ...(message && { message })
+        };
+        for (const listener of this.listeners) {
             try {
-                const response = await fetch(`http://localhost:${this.config.port}/test`);
-                if (response.ok) {
-                    return;
-                }
+                listener(event);
             } catch (error) {
-                // Service not ready yet
+                log.error('Process event listener failed', { error });
             }
-            
-            if (attempt === maxAttempts) {
-                throw new McpError(
-                    ErrorCode.InternalError,
-                    `Firecrawl API server failed to respond after ${maxAttempts} seconds`
-                );
+        }
+    }
+
+    // Polls /test until the API answers; gives up quietly when the process exits or the launch settles
+    private async waitForApi(child: ChildProcess, isSettled: () => boolean): Promise<boolean> {
+        const delayMs = 1000;
+
+        while (!isSettled() && child.exitCode === null && child.signalCode === null) {
+            if (await this.healthCheck()) {
+                return true;
             }
-            
             await this.delay(delayMs);
         }
+        return false;
     }
 
     private delay(ms: number): Promise<void> {
@@ -241,4 +444,4 @@ export class FirecrawlProcessManager {
             return false;
         }
     }
-}
\ No newline at end of file
+}
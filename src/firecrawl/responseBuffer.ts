@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+
+export interface ResponseBudget {
+    maxChars?: number;
+    maxTokens?: number;
+}
+
+export interface ResponseChunk {
+    text: string;
+    start: number;
+    end: number;
+    totalLength: number;
+    continuationToken?: string;
+}
+
+interface BufferedResponse {
+    text: string;
+    expiresAt: number;
+}
+
+// Rough conversion used when the budget is expressed in tokens
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_CHARS = 100000;
+const BUFFER_TTL_MS = 30 * 60 * 1000;
+const MAX_BUFFERED_RESPONSES = 50;
+
+/**
+ * Finds where to end a chunk that starts at `start`, preferring markdown
+ * boundaries (headings, paragraphs, lines, words) over a hard cut. Both real
+ * newlines and JSON-escaped ones are considered, since most tool output is
+ * pretty-printed JSON with markdown inside string values.
+ */
+export function findChunkEnd(text: string, start: number, maxChars: number): number {
+    const hardEnd = start + maxChars;
+    if (hardEnd >= text.length) {
+        return text.length;
+    }
+
+    const window = text.slice(start, hardEnd);
+    // Don't accept boundaries that would make the chunk tiny
+    const minLength = Math.floor(maxChars / 2);
+    const boundaries = [
+        ['\n#', '\\n#'],
+        ['\n\n', '\\n\\n'],
+        ['\n', '\\n'],
+        [' ']
+    ];
+
+    for (const markers of boundaries) {
+        const cut = Math.max(...markers.map(marker => window.lastIndexOf(marker)));
+        if (cut >= minLength) {
+            return start + avoidOpenCodeFence(window, cut);
+        }
+    }
+
+    return hardEnd;
+}
+
+function avoidOpenCodeFence(window: string, cut: number): number {
+    const fences = window.slice(0, cut).split('```').length - 1;
+    if (fences % 2 === 0) {
+        return cut;
+    }
+    // Cut lands inside a fenced block; end the chunk before the block opens
+    const fenceStart = window.lastIndexOf('```', cut);
+    return fenceStart > 0 ? fenceStart : cut;
+}
+
+export class ResponseBuffer {
+    private responses = new Map<string, BufferedResponse>();
+    private maxChars: number;
+
+    constructor(budget: ResponseBudget = {}) {
+        const limits = [
+            budget.maxChars,
+            budget.maxTokens !== undefined ? budget.maxTokens * CHARS_PER_TOKEN : undefined
+        ].filter((limit): limit is number => limit !== undefined && limit > 0);
+        this.maxChars = limits.length > 0 ? Math.min(...limits) : DEFAULT_MAX_CHARS;
+    }
+
+    get budget(): number {
+        return this.maxChars;
+    }
+
+    /**
+     * Returns the first chunk of `text`, buffering the remainder server-side
+     * when it doesn't fit in the budget.
+     */
+    paginate(text: string): ResponseChunk {
+        if (text.length <= this.maxChars) {
+            return { text, start: 0, end: text.length, totalLength: text.length };
+        }
+
+        this.evictExpired();
+        // Map iteration order is insertion order, so this drops the oldest first
+        while (this.responses.size >= MAX_BUFFERED_RESPONSES) {
+            const oldest = this.responses.keys().next().value as string;
+            this.responses.delete(oldest);
+        }
+
+        const id = randomUUID();
+        this.responses.set(id, { text, expiresAt: Date.now() + BUFFER_TTL_MS });
+        return this.chunkAt(id, text, 0, this.maxChars);
+    }
+
+    read(continuationToken: string, maxChars?: number): ResponseChunk | undefined {
+        this.evictExpired();
+        const [id, offset] = continuationToken.split(':');
+        const buffered = this.responses.get(id);
+        const start = parseInt(offset, 10);
+        if (!buffered || isNaN(start) || start < 0 || start >= buffered.text.length) {
+            return undefined;
+        }
+
+        buffered.expiresAt = Date.now() + BUFFER_TTL_MS;
+        return this.chunkAt(id, buffered.text, start, Math.min(maxChars || this.maxChars, this.maxChars));
+    }
+
+    private chunkAt(id: string, text: string, start: number, maxChars: number): ResponseChunk {
+        const end = findChunkEnd(text, start, maxChars);
+        return {
+            text: text.slice(start, end),
+            start,
+            end,
+            totalLength: text.length,
+            ...(end < text.length && { continuationToken: `${id}:${end}` })
+        };
+    }
+
+    private evictExpired(): void {
+        const now = Date.now();
+        for (const [id, buffered] of this.responses) {
+            if (buffered.expiresAt <= now) {
+                this.responses.delete(id);
+            }
+        }
+    }
+}
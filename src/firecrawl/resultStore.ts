@@ -0,0 +1,145 @@
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { CrawlResult, ScrapeOptions, ScrapeResult } from './client.js';
+import { scrapeKey } from './scrapeCache.js';
+import { trackCrawl } from '../metrics/serverMetrics.js';
+
+export interface StoredScrape {
+    hash: string;
+    // API key or session the result belongs to; undefined for the single stdio client
+    owner?: string;
+    url: string;
+    result: ScrapeResult;
+    scrapedAt: string;
+}
+
+export interface StoredCrawl {
+    jobId: string;
+    owner?: string;
+    url?: string;
+    status?: string;
+    completed: boolean;
+    total?: number;
+    pages: ScrapeResult[];
+    // 1-based page number of each page, keyed by source URL
+    pageNumbers: Map<string, number>;
+    updatedAt: string;
+}
+
+const MAX_SCRAPES = 100;
+const MAX_CRAWLS = 20;
+
+export function scrapeResourceUri(hash: string): string {
+    return `firecrawl://scrape/${hash}`;
+}
+
+export function crawlResourceUri(jobId: string): string {
+    return `firecrawl://crawl/${jobId}`;
+}
+
+export function crawlPageResourceUri(jobId: string, pageNumber: number): string {
+    return `firecrawl://crawl/${jobId}/page/${pageNumber}`;
+}
+
+// Results are kept per API key, or per session when the server has no keys, so
+// one HTTP client can't list or read what another one fetched
+export function resultOwner(context?: { authInfo?: AuthInfo; sessionId?: string }): string | undefined {
+    if (context?.authInfo) {
+        return `key:${context.authInfo.clientId}`;
+    }
+    return context?.sessionId ? `session:${context.sessionId}` : undefined;
+}
+
+function storeKey(owner: string | undefined, id: string): string {
+    return `${owner ?? ''}\u0000${id}`;
+}
+
+// Webhook pages arrive in crawl order and polled pages at their Firecrawl offset, which don't agree,
+// so pages are numbered by URL in the order they were first seen, however they arrived
+function pageKey(page: ScrapeResult, position: number): string {
+    return page.metadata?.sourceURL || `#${position}`;
+}
+
+// Number a page from a status response was stored under; position is its 0-based Firecrawl offset
+export function crawlPageNumber(crawl: StoredCrawl | undefined, page: ScrapeResult, position: number): number {
+    return crawl?.pageNumbers.get(pageKey(page, position)) ?? position + 1;
+}
+
+// Keeps recent results in memory so they can be served as MCP resources
+export class ResultStore {
+    private scrapes = new Map<string, StoredScrape>();
+    private crawls = new Map<string, StoredCrawl>();
+
+    recordScrape(url: string, options: ScrapeOptions, result: ScrapeResult, owner?: string): StoredScrape {
+        const hash = scrapeKey(url, options);
+        const key = storeKey(owner, hash);
+        const entry = { hash, owner, url, result, scrapedAt: new Date().toISOString() };
+        this.scrapes.delete(key);
+        this.scrapes.set(key, entry);
+        this.trim(this.scrapes, MAX_SCRAPES);
+        return entry;
+    }
+
+    getScrape(hash: string, owner?: string): StoredScrape | undefined {
+        return this.scrapes.get(storeKey(owner, hash));
+    }
+
+    listScrapes(owner?: string): StoredScrape[] {
+        return Array.from(this.scrapes.values()).filter(scrape => scrape.owner === owner).reverse();
+    }
+
+    recordCrawl(result: CrawlResult, url?: string, owner?: string): StoredCrawl {
+        const key = storeKey(owner, result.jobId);
+        const existing = this.crawls.get(key);
+        const entry: StoredCrawl = existing || {
+            jobId: result.jobId,
+            owner,
+            completed: false,
+            pages: [],
+            pageNumbers: new Map(),
+            updatedAt: new Date().toISOString()
+        };
+
+        entry.url = url || entry.url;
+        entry.status = result.status || entry.status;
+        entry.completed = !!result.completed || entry.completed;
+        entry.total = result.total ?? entry.total;
+        entry.updatedAt = new Date().toISOString();
+        const offset = result.offset || 0;
+        (result.data || []).forEach((page, index) => this.addPage(entry, page, pageKey(page, offset + index)));
+        // The merged status, so a page event arriving after completion doesn't count the crawl again
+        trackCrawl(entry.jobId, entry.status, entry.completed);
+
+        this.crawls.delete(key);
+        this.crawls.set(key, entry);
+        this.trim(this.crawls, MAX_CRAWLS);
+        return entry;
+    }
+
+    // Adds pages pushed by a crawl webhook. Returns the 1-based page numbers that were written.
+    recordCrawlPages(jobId: string, pages: ScrapeResult[], owner?: string): number[] {
+        const entry = this.recordCrawl({ jobId }, undefined, owner);
+        return pages.map(page => this.addPage(entry, page, pageKey(page, entry.pages.length)));
+    }
+
+    getCrawl(jobId: string, owner?: string): StoredCrawl | undefined {
+        return this.crawls.get(storeKey(owner, jobId));
+    }
+
+    listCrawls(owner?: string): StoredCrawl[] {
+        return Array.from(this.crawls.values()).filter(crawl => crawl.owner === owner).reverse();
+    }
+
+    // Replaces an earlier copy of the same page, or appends it under the next number
+    private addPage(entry: StoredCrawl, page: ScrapeResult, key: string): number {
+        const pageNumber = entry.pageNumbers.get(key) ?? entry.pages.length + 1;
+        entry.pages[pageNumber - 1] = page;
+        entry.pageNumbers.set(key, pageNumber);
+        return pageNumber;
+    }
+
+    private trim<T>(entries: Map<string, T>, max: number): void {
+        while (entries.size > max) {
+            entries.delete(entries.keys().next().value as string);
+        }
+    }
+}
@@ -1,13 +1,115 @@
 import { z } from "zod";
 
+const jsonOptionsSchema = z.object({
+  schema: z.record(z.any()).optional().describe("JSON Schema the extracted data should follow"),
+  prompt: z.string().optional().describe("Instructions describing what to extract"),
+  systemPrompt: z.string().optional().describe("System prompt for the extraction model")
+});
+
+// Browser interactions run in order before the page is captured
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('wait'),
+    milliseconds: z.number().int().min(1).optional().describe("Time to wait in milliseconds"),
+    selector: z.string().optional().describe("Wait until this CSS selector is present instead")
+  }),
+  z.object({
+    type: z.literal('click'),
+    selector: z.string().describe("CSS selector of the element to click"),
+    all: z.boolean().optional().describe("Click every matching element instead of the first")
+  }),
+  z.object({
+    type: z.literal('scroll'),
+    direction: z.enum(['up', 'down']).optional().describe("Scroll direction (default: down)"),
+    selector: z.string().optional().describe("Scroll this element instead of the page")
+  }),
+  z.object({
+    type: z.literal('write'),
+    text: z.string().describe("Text to type into the focused element; click an input first to focus it")
+  }),
+  z.object({
+    type: z.literal('press'),
+    key: z.string().describe("Key to press, e.g. Enter or Tab")
+  }),
+  z.object({
+    type: z.literal('screenshot'),
+    fullPage: z.boolean().optional().describe("Capture the full scrollable page")
+  }),
+  z.object({
+    type: z.literal('executeJavascript'),
+    script: z.string().describe("JavaScript to run in the page; its return value is included in the response")
+  })
+]);
+
+// Firecrawl POSTs crawl events here; a bare string is the URL
+const webhookSchema = z.union([
+  z.string().url(),
+  z.object({
+    url: z.string().url().describe("Webhook URL"),
+    headers: z.record(z.string()).optional().describe("Headers sent with each webhook request"),
+    metadata: z.record(z.any()).optional().describe("Custom data included in every webhook payload"),
+    events: z.array(z.enum(['started', 'page', 'completed', 'failed'])).optional().describe("Events to send (default: all)")
+  })
+]);
+
+// Page-level options shared by every tool that scrapes pages
+const scrapeOptionsShape = {
+  formats: z.array(z.enum(['markdown', 'html', 'rawHtml', 'links', 'screenshot', 'screenshot@fullPage', 'json', 'extract'])).optional().describe("Output formats to include. Use 'json' together with jsonOptions for structured extraction; 'screenshot@fullPage' captures the whole scrollable page"),
+  includeTags: z.array(z.string()).optional().describe("HTML tags to include in extraction"),
+  excludeTags: z.array(z.string()).optional().describe("HTML tags to exclude from extraction"),
+  onlyMainContent: z.boolean().optional().describe("Extract only main content"),
+  timeout: z.number().optional().describe("Request timeout in milliseconds"),
+  jsonOptions: jsonOptionsSchema.optional().describe("Schema and/or prompt for the 'json' format"),
+  extractOptions: jsonOptionsSchema.optional().describe("Schema and/or prompt for the legacy 'extract' format"),
+  actions: z.array(actionSchema).max(50).optional().describe("Browser actions to perform before capturing the page: wait, click, scroll, write, press, screenshot, executeJavascript"),
+  waitFor: z.number().int().min(0).optional().describe("Delay in milliseconds before capturing the page, for content that loads late"),
+  headers: z.record(z.string()).optional().describe("Extra HTTP headers to send with the page request, such as cookies or user agent"),
+  mobile: z.boolean().optional().describe("Emulate a mobile device"),
+  location: z.object({
+    country: z.string().length(2).optional().describe("ISO 3166-1 alpha-2 country code, e.g. US or DE"),
+    languages: z.array(z.string()).optional().describe("Preferred languages in order, e.g. ['de-DE', 'en']")
+  }).optional().describe("Country and languages to emulate when loading the page"),
+  skipTlsVerification: z.boolean().optional().describe("Skip TLS certificate verification"),
+  removeBase64Images: z.boolean().optional().describe("Replace inline base64 images in the output with placeholders")
+};
+
 export const FirecrawlSchemas = {
   'firecrawl_scrape': z.object({
     url: z.string().url().describe("URL to scrape"),
-    formats: z.array(z.enum(['markdown', 'html', 'rawHtml', 'links', 'screenshot'])).optional().describe("Output formats to include"),
-    includeTags: z.array(z.string()).optional().describe("HTML tags to include in extraction"),
-    excludeTags: z.array(z.string()).optional().describe("HTML tags to exclude from extraction"),
-    onlyMainContent: z.boolean().optional().describe("Extract only main content"),
-    timeout: z.number().optional().describe("Request timeout in milliseconds")
+    ...scrapeOptionsShape,
+    screenshotOptions: z.object({
+      maxWidth: z.number().int().min(16).optional().describe("Maximum image width in pixels"),
+      maxHeight: z.number().int().min(16).optional().describe("Maximum image height in pixels"),
+      fit: z.enum(['scale', 'crop']).optional().describe("scale: shrink to fit both limits; crop: shrink to maxWidth and cut off below maxHeight")
+    }).optional().describe("Size limits for screenshots returned as images (defaults come from the server config)"),
+    maxAge: z.number().int().min(0).optional().describe("Accept a cached result up to this many milliseconds old (default: cache TTL)"),
+    bypassCache: z.boolean().optional().describe("Always scrape fresh and refresh the cached copy")
+  }),
+
+  'firecrawl_batch_scrape': z.object({
+    // Not .url(): invalid entries are left to ignoreInvalidURLs instead of failing the whole call
+    urls: z.array(z.string()).min(1).max(1000).describe("URLs to scrape"),
+    ...scrapeOptionsShape,
+    ignoreInvalidURLs: z.boolean().optional().describe("Skip invalid URLs instead of failing the whole batch")
+  }),
+
+  'firecrawl_batch_scrape_status': z.object({
+    jobId: z.string().describe("Batch scrape job ID to check status for"),
+    cursor: z.string().optional().describe("Cursor from a previous response to read the next batch of results"),
+    fetchAll: z.boolean().optional().describe("Follow pagination and return all remaining results up to maxPages/maxBytes"),
+    maxPages: z.number().int().min(1).optional().describe("Maximum number of pages to collect when fetchAll is set (default: 500)"),
+    maxBytes: z.number().int().min(1).optional().describe("Approximate maximum size of collected results in bytes when fetchAll is set (default: 5242880)")
+  }),
+
+  'firecrawl_extract': z.object({
+    urls: z.array(z.string()).min(1).describe("URLs to extract from. Glob patterns such as https://example.com/* are allowed"),
+    prompt: z.string().optional().describe("Instructions describing what to extract"),
+    schema: z.record(z.any()).optional().describe("JSON Schema the extracted data should follow"),
+    systemPrompt: z.string().optional().describe("System prompt for the extraction model"),
+    enableWebSearch: z.boolean().optional().describe("Allow following links outside the given URLs"),
+    timeout: z.number().int().min(1000).optional().describe("Maximum time to wait for the extraction in milliseconds (default: 120000)")
+  }).refine(args => args.prompt || args.schema, {
+    message: "Either prompt or schema is required"
   }),
 
   'firecrawl_crawl': z.object({
@@ -17,20 +119,76 @@ export const FirecrawlSchemas = {
     maxDepth: z.number().int().min(0).max(10).optional().describe("Maximum crawl depth (default: 2)"),
     limit: z.number().int().min(1).max(1000).optional().describe("Maximum number of pages to crawl (default: 10)"),
     allowBackwardLinks: z.boolean().optional().describe("Allow crawling backward links"),
-    allowExternalLinks: z.boolean().optional().describe("Allow crawling external links")
+    allowExternalLinks: z.boolean().optional().describe("Allow crawling external links"),
+    crawlEntireDomain: z.boolean().optional().describe("Follow links to sibling and parent pages, not only children of the start URL"),
+    ignoreSitemap: z.boolean().optional().describe("Ignore the sitemap and discover pages from links only"),
+    ignoreQueryParameters: z.boolean().optional().describe("Treat URLs that differ only in query parameters as the same page"),
+    webhook: webhookSchema.optional().describe("URL, or object with url/headers/metadata/events, that receives crawl events"),
+    scrapeOptions: z.object(scrapeOptionsShape).optional().describe("Page options applied to every crawled page, including actions, waitFor and headers"),
+    waitForCompletion: z.boolean().optional().describe("Wait for the crawl to finish and return all pages, sending progress notifications while waiting"),
+    waitTimeout: z.number().int().min(1000).optional().describe("Maximum time to wait when waitForCompletion is set, in milliseconds (default: 300000)")
   }),
 
   'firecrawl_crawl_status': z.object({
-    jobId: z.string().describe("Crawl job ID to check status for")
+    jobId: z.string().describe("Crawl job ID to check status for"),
+    cursor: z.string().optional().describe("Cursor from a previous response to read the next batch of results"),
+    fetchAll: z.boolean().optional().describe("Follow pagination and return all remaining results up to maxPages/maxBytes"),
+    maxPages: z.number().int().min(1).optional().describe("Maximum number of pages to collect when fetchAll is set (default: 500)"),
+    maxBytes: z.number().int().min(1).optional().describe("Approximate maximum size of collected results in bytes when fetchAll is set (default: 5242880)"),
+    includeMarkdown: z.boolean().optional().describe("Include the markdown content of each page")
+  }),
+
+  'firecrawl_crawl_cancel': z.object({
+    jobId: z.string().describe("Crawl job ID to cancel")
+  }),
+
+  'firecrawl_export': z.object({
+    jobId: z.string().describe("Crawl job ID to export"),
+    format: z.enum(['markdown', 'jsonl', 'single']).optional().describe("markdown: one .md file per page mirroring the URL paths, plus index.md; jsonl: one JSON line per page; single: one concatenated document (default: markdown)"),
+    subdirectory: z.string().optional().describe("Directory under the configured export root to write into (default: the job ID)")
+  }),
+
+  'firecrawl_map': z.object({
+    url: z.string().url().describe("Base URL of the site to map"),
+    search: z.string().optional().describe("Only return URLs related to this search term"),
+    includeSubdomains: z.boolean().optional().describe("Include URLs from subdomains"),
+    sitemapOnly: z.boolean().optional().describe("Only return URLs found in the sitemap"),
+    ignoreSitemap: z.boolean().optional().describe("Ignore the sitemap and discover URLs from page links only"),
+    limit: z.number().int().min(1).max(5000).optional().describe("Maximum number of URLs to return (default: 100)")
   }),
 
   'firecrawl_search': z.object({
     query: z.string().describe("Search query"),
     limit: z.number().int().min(1).max(20).optional().describe("Maximum number of results (default: 5)"),
-    location: z.string().optional().describe("Geographic location for search")
+    tbs: z.string().optional().describe("Time filter, e.g. qdr:h (past hour), qdr:d (day), qdr:w (week), qdr:m (month), qdr:y (year)"),
+    filter: z.string().optional().describe("Additional search filter"),
+    location: z.string().optional().describe("Geographic location for search"),
+    scrapeOptions: z.object(scrapeOptionsShape).optional().describe("Page options for scraping each result; formats defaults to markdown")
+  }),
+
+  'firecrawl_health': z.object({}),
+
+  'firecrawl_logs': z.object({
+    process: z.enum(['redis', 'workers', 'api']).optional().describe("Only return logs from this process"),
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional().describe("Minimum log level"),
+    since: z.string().optional().describe("Start of the time window: ISO timestamp or duration ago such as 15m, 2h"),
+    until: z.string().optional().describe("End of the time window: ISO timestamp or duration ago"),
+    contains: z.string().optional().describe("Only return lines containing this text (case-insensitive)"),
+    limit: z.number().int().min(1).max(1000).optional().describe("Maximum number of lines; the most recent are kept (default: 100)")
+  }),
+
+  'firecrawl_cache': z.object({
+    action: z.enum(['stats', 'list', 'purge']).describe("stats: cache size and settings, list: cached entries, purge: remove entries"),
+    key: z.string().optional().describe("Only purge the entry with this key"),
+    url: z.string().optional().describe("Only list or purge entries for this URL"),
+    expiredOnly: z.boolean().optional().describe("Only purge entries older than the cache TTL"),
+    limit: z.number().int().min(1).optional().describe("Maximum number of entries to list (default: 50)")
   }),
 
-  'firecrawl_health': z.object({})
+  'firecrawl_read_more': z.object({
+    continuationToken: z.string().describe("Continuation token from a truncated response"),
+    maxChars: z.number().int().min(1).optional().describe("Maximum characters to return (capped by the server budget)")
+  })
 } as const;
 
 export type FirecrawlToolInputs = {
@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ScrapeOptions, ScrapeResult } from './client.js';
+
+export interface ScrapeCacheConfig {
+    enabled?: boolean;
+    directory?: string;
+    ttlSeconds?: number;
+    maxSizeMb?: number;
+}
+
+export interface CachedScrape {
+    key: string;
+    url: string;
+    // Client that stored the entry over HTTP (see resultOwner); unset for stdio
+    owner?: string;
+    // As requested, except that header values are masked
+    options: ScrapeOptions;
+    storedAt: number;
+    result: ScrapeResult;
+}
+
+export interface CacheEntryInfo {
+    key: string;
+    url: string;
+    storedAt: string;
+    ageSeconds: number;
+    expired: boolean;
+    sizeBytes: number;
+}
+
+interface IndexEntry {
+    url: string;
+    owner?: string;
+    storedAt: number;
+    sizeBytes: number;
+}
+
+/**
+ * Stable key for a scrape request. Option keys are sorted and undefined
+ * values dropped so equivalent requests share an entry. Entries stored by
+ * different owners never share a key.
+ */
+export function scrapeKey(url: string, options: ScrapeOptions = {}, owner?: string): string {
+    const normalized = Object.keys(options)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+            const value = (options as Record<string, unknown>)[key];
+            if (value !== undefined) {
+                acc[key] = value;
+            }
+            return acc;
+        }, {});
+    return createHash('sha256')
+        .update(JSON.stringify(owner === undefined ? { url, options: normalized } : { url, options: normalized, owner }))
+        .digest('hex')
+        .slice(0, 16);
+}
+
+// Request headers can carry cookies or credentials for the target site. They still
+// count towards the cache key, but only their names are written to disk.
+function redactHeaders(options: ScrapeOptions): ScrapeOptions {
+    if (!options.headers) {
+        return options;
+    }
+    return {
+        ...options,
+        headers: Object.fromEntries(Object.keys(options.headers).map(name => [name, '***']))
+    };
+}
+
+// Disk-backed cache of scrape results, one JSON file per entry. Each HTTP client only
+// sees its own entries; the size limit applies to the cache as a whole.
+export class ScrapeCache {
+    private directory: string;
+    private ttlMs: number;
+    private maxBytes: number;
+    private index?: Map<string, IndexEntry>;
+
+    constructor(config: ScrapeCacheConfig = {}) {
+        this.directory = config.directory || join(homedir(), '.cache', 'firecrawl-mcp', 'scrapes');
+        this.ttlMs = (config.ttlSeconds ?? 24 * 60 * 60) * 1000;
+        this.maxBytes = (config.maxSizeMb ?? 100) * 1024 * 1024;
+    }
+
+    async get(url: string, options: ScrapeOptions, maxAgeMs?: number, owner?: string): Promise<CachedScrape | undefined> {
+        const index = await this.loadIndex();
+        const key = scrapeKey(url, options, owner);
+        const entry = index.get(key);
+        if (!entry || entry.owner !== owner) {
+            return undefined;
+        }
+
+        const age = Date.now() - entry.storedAt;
+        if (age > Math.min(this.ttlMs, maxAgeMs ?? Infinity)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8'));
+        } catch {
+            // File vanished or is corrupt; forget it
+            index.delete(key);
+            return undefined;
+        }
+    }
+
+    async set(url: string, options: ScrapeOptions, result: ScrapeResult, owner?: string): Promise<CachedScrape> {
+        const index = await this.loadIndex();
+        const entry: CachedScrape = {
+            key: scrapeKey(url, options, owner),
+            url,
+            ...(owner !== undefined && { owner }),
+            options: redactHeaders(options),
+            storedAt: Date.now(),
+            result
+        };
+        const serialized = JSON.stringify(entry);
+
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.entryPath(entry.key), serialized, 'utf-8');
+        index.set(entry.key, { url, owner, storedAt: entry.storedAt, sizeBytes: Buffer.byteLength(serialized) });
+        await this.enforceSizeLimit();
+        return entry;
+    }
+
+    async list(owner?: string): Promise<CacheEntryInfo[]> {
+        const index = await this.loadIndex();
+        const now = Date.now();
+        return Array.from(index.entries())
+            .filter(([, entry]) => entry.owner === owner)
+            .map(([key, entry]) => ({
+                key,
+                url: entry.url,
+                storedAt: new Date(entry.storedAt).toISOString(),
+                ageSeconds: Math.round((now - entry.storedAt) / 1000),
+                expired: now - entry.storedAt > this.ttlMs,
+                sizeBytes: entry.sizeBytes
+            }))
+            .sort((a, b) => a.ageSeconds - b.ageSeconds);
+    }
+
+    // Entry count and size cover only the owner's entries
+    async stats(owner?: string): Promise<{ directory: string; entries: number; sizeBytes: number; maxBytes: number; ttlSeconds: number }> {
+        const index = await this.loadIndex();
+        let entries = 0;
+        let sizeBytes = 0;
+        for (const entry of index.values()) {
+            if (entry.owner === owner) {
+                entries++;
+                sizeBytes += entry.sizeBytes;
+            }
+        }
+        return {
+            directory: this.directory,
+            entries,
+            sizeBytes,
+            maxBytes: this.maxBytes,
+            ttlSeconds: this.ttlMs / 1000
+        };
+    }
+
+    /**
+     * Removes the owner's entries matching the filter and returns how many
+     * were removed. With no filter every entry of the owner is removed.
+     */
+    async purge(filter: { key?: string; url?: string; expiredOnly?: boolean } = {}, owner?: string): Promise<number> {
+        const index = await this.loadIndex();
+        const now = Date.now();
+        let removed = 0;
+
+        for (const [key, entry] of Array.from(index.entries())) {
+            if (entry.owner !== owner) continue;
+            if (filter.key && key !== filter.key) continue;
+            if (filter.url && entry.url !== filter.url) continue;
+            if (filter.expiredOnly && now - entry.storedAt <= this.ttlMs) continue;
+
+            await this.remove(key);
+            removed++;
+        }
+        return removed;
+    }
+
+    private async loadIndex(): Promise<Map<string, IndexEntry>> {
+        if (this.index) {
+            return this.index;
+        }
+
+        const index = new Map<string, IndexEntry>();
+        let files: string[] = [];
+        try {
+            files = await fs.readdir(this.directory);
+        } catch {
+            // Cache directory doesn't exist yet
+        }
+
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+            try {
+                const raw = await fs.readFile(join(this.directory, file), 'utf-8');
+                const entry: CachedScrape = JSON.parse(raw);
+                index.set(entry.key, { url: entry.url, owner: entry.owner, storedAt: entry.storedAt, sizeBytes: Buffer.byteLength(raw) });
+            } catch {
+                // Skip unreadable entries; they'll be overwritten on the next store
+            }
+        }
+
+        this.index = index;
+        return index;
+    }
+
+    private async enforceSizeLimit(): Promise<void> {
+        const index = await this.loadIndex();
+        let total = 0;
+        for (const entry of index.values()) {
+            total += entry.sizeBytes;
+        }
+
+        const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].storedAt - b[1].storedAt);
+        for (const [key, entry] of oldestFirst) {
+            if (total <= this.maxBytes) break;
+            await this.remove(key);
+            total -= entry.sizeBytes;
+        }
+    }
+
+    private async remove(key: string): Promise<void> {
+        this.index?.delete(key);
+        await fs.rm(this.entryPath(key), { force: true });
+    }
+
+    private entryPath(key: string): string {
+        return join(this.directory, `${key}.json`);
+    }
+}
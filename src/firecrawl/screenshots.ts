@@ -0,0 +1,136 @@
+export interface ScreenshotOptions {
+    maxWidth?: number;
+    maxHeight?: number;
+    // 'scale' shrinks the image to fit both caps; 'crop' scales to maxWidth and cuts the rest below maxHeight
+    fit?: 'scale' | 'crop';
+    // Re-encoded as JPEG when still larger than this after resizing
+    maxBytes?: number;
+}
+
+export interface PreparedScreenshot {
+    // Base64 without a data: prefix, as MCP image content expects
+    data: string;
+    mimeType: string;
+    width?: number;
+    height?: number;
+    resized: boolean;
+    cropped: boolean;
+}
+
+// Long edges above ~8000px are rejected by common clients, and full-page captures easily exceed that
+const DEFAULT_OPTIONS: Required<ScreenshotOptions> = {
+    maxWidth: 1280,
+    maxHeight: 7680,
+    fit: 'scale',
+    maxBytes: 5 * 1024 * 1024
+};
+const FETCH_TIMEOUT_MS = 30000;
+const JPEG_QUALITIES = [80, 60, 40];
+
+type Sharp = typeof import('sharp');
+let sharpModule: Promise<Sharp | undefined> | undefined;
+
+// sharp is an optional native dependency; without it screenshots are passed through unchanged
+function loadSharp(): Promise<Sharp | undefined> {
+    sharpModule ??= import('sharp').then(module => module.default).catch(() => undefined);
+    return sharpModule;
+}
+
+function sniffMimeType(data: Buffer): string | undefined {
+    if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+    if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    if (data.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+    return undefined;
+}
+
+// Firecrawl returns a data: URL or plain base64 when it stores nothing itself, and a URL when it uploads the image
+async function loadScreenshot(source: string): Promise<{ data: Buffer; mimeType?: string }> {
+    const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(source);
+    if (dataUrl) {
+        return { data: Buffer.from(dataUrl[3], dataUrl[2] ? 'base64' : 'utf-8'), mimeType: dataUrl[1] };
+    }
+
+    if (/^https?:\/\//i.test(source)) {
+        const response = await fetch(source, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+        if (!response.ok) {
+            throw new Error(`Screenshot download failed with HTTP ${response.status}`);
+        }
+        const contentType = response.headers.get('content-type')?.split(';')[0].trim();
+        return {
+            data: Buffer.from(await response.arrayBuffer()),
+            mimeType: contentType?.startsWith('image/') ? contentType : undefined
+        };
+    }
+
+    return { data: Buffer.from(source, 'base64') };
+}
+
+/**
+ * Turns a screenshot from Firecrawl into base64 image data with a known mime
+ * type, scaling or cropping it to the configured caps when sharp is installed.
+ */
+export async function prepareScreenshot(source: string, options: ScreenshotOptions = {}): Promise<PreparedScreenshot> {
+    const caps = { ...DEFAULT_OPTIONS, ...options };
+    const loaded = await loadScreenshot(source);
+    const mimeType = sniffMimeType(loaded.data) || loaded.mimeType;
+    if (!mimeType) {
+        throw new Error('Screenshot is not a recognised image');
+    }
+
+    const sharp = await loadSharp();
+    if (!sharp) {
+        if (loaded.data.length > caps.maxBytes) {
+            throw new Error(`Screenshot is ${loaded.data.length} bytes, over the ${caps.maxBytes} byte cap, and sharp is not installed to shrink it`);
+        }
+        return { data: loaded.data.toString('base64'), mimeType, resized: false, cropped: false };
+    }
+
+    const { width, height } = await sharp(loaded.data).metadata();
+    if (!width || !height) {
+        // Scaling and cropping both divide by the dimensions
+        throw new Error('Screenshot dimensions could not be read');
+    }
+    let image = sharp(loaded.data);
+    let outWidth = width;
+    let outHeight = height;
+    let resized = false;
+    let cropped = false;
+
+    if (caps.fit === 'crop') {
+        const scale = Math.min(1, caps.maxWidth / width);
+        outWidth = Math.round(width * scale);
+        const scaledHeight = Math.round(height * scale);
+        outHeight = Math.min(scaledHeight, caps.maxHeight);
+        if (scale < 1) {
+            image = image.resize({ width: outWidth });
+            resized = true;
+        }
+        if (outHeight < scaledHeight) {
+            // Resize and extract are applied in that order by sharp
+            image = image.extract({ left: 0, top: 0, width: outWidth, height: outHeight });
+            cropped = true;
+        }
+    } else if (width > caps.maxWidth || height > caps.maxHeight) {
+        const scale = Math.min(caps.maxWidth / width, caps.maxHeight / height);
+        outWidth = Math.max(1, Math.round(width * scale));
+        outHeight = Math.max(1, Math.round(height * scale));
+        image = image.resize({ width: outWidth, height: outHeight, fit: 'inside' });
+        resized = true;
+    }
+
+    let data = resized || cropped ? await image.toBuffer() : loaded.data;
+    let outMimeType = mimeType;
+    for (const quality of JPEG_QUALITIES) {
+        if (data.length <= caps.maxBytes) {
+            break;
+        }
+        data = await image.clone().jpeg({ quality }).toBuffer();
+        outMimeType = 'image/jpeg';
+    }
+    if (data.length > caps.maxBytes) {
+        throw new Error(`Screenshot is still ${data.length} bytes after compression, over the ${caps.maxBytes} byte cap`);
+    }
+
+    return { data: data.toString('base64'), mimeType: outMimeType, width: outWidth, height: outHeight, resized, cropped };
+}
@@ -1,16 +1,33 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode, ReadResourceResult, CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { writeFileSync } from "fs";
+import { ZodRawShape } from "zod";
 
 // Import Firecrawl components
 import { FirecrawlProcessManager, FirecrawlConfig } from './firecrawl/processManager.js';
-import { FirecrawlClient } from './firecrawl/client.js';
+import { FirecrawlClient, ScrapeResult } from './firecrawl/client.js';
+import { ResponseBuffer } from './firecrawl/responseBuffer.js';
+import { ScrapeCache } from './firecrawl/scrapeCache.js';
+import { ResultStore, StoredCrawl, crawlPageResourceUri, crawlResourceUri, resultOwner, scrapeResourceUri } from './firecrawl/resultStore.js';
+import { CrawlWebhookReceiver } from './firecrawl/crawlWebhook.js';
+import { CrawlExporter } from './firecrawl/crawlExport.js';
 
 // Import tool handlers
 import { ScrapeHandler } from './handlers/firecrawl/ScrapeHandler.js';
+import { BatchScrapeHandler } from './handlers/firecrawl/BatchScrapeHandler.js';
+import { BatchScrapeStatusHandler } from './handlers/firecrawl/BatchScrapeStatusHandler.js';
+import { ExtractHandler } from './handlers/firecrawl/ExtractHandler.js';
 import { CrawlHandler } from './handlers/firecrawl/CrawlHandler.js';
 import { CrawlStatusHandler } from './handlers/firecrawl/CrawlStatusHandler.js';
+import { CrawlCancelHandler } from './handlers/firecrawl/CrawlCancelHandler.js';
+import { ExportHandler } from './handlers/firecrawl/ExportHandler.js';
+import { MapHandler } from './handlers/firecrawl/MapHandler.js';
 import { SearchHandler } from './handlers/firecrawl/SearchHandler.js';
 import { HealthCheckHandler } from './handlers/firecrawl/HealthCheckHandler.js';
+import { ConnectionInfo } from './handlers/firecrawl/FirecrawlBaseHandler.js';
+import { ReadMoreHandler } from './handlers/firecrawl/ReadMoreHandler.js';
+import { CacheHandler } from './handlers/firecrawl/CacheHandler.js';
+import { LogsHandler } from './handlers/firecrawl/LogsHandler.js';
 
 // Import schemas
 import { FirecrawlSchemas } from './firecrawl/schemas.js';
@@ -21,73 +38,164 @@ import { HttpTransportHandler, HttpTransportConfig } from './transports/http.js'
 
 // Import config
 import { ServerConfig } from './config/TransportConfig.js';
+import { applyToolSettings } from './config/configFile.js';
+
+// Import metrics
+import { metrics } from './metrics/metrics.js';
+import { activeCrawls, countActiveCrawls, processRestarts, processUp, recordToolCall } from './metrics/serverMetrics.js';
+
+// Import logging
+import { logger } from './logging/logger.js';
+import { attachMcpLogging } from './logging/mcpLogging.js';
+
+const log = logger.child('server');
 
 export class FirecrawlMcpServer {
-    private server: McpServer;
     private processManager: FirecrawlProcessManager;
     private firecrawlClient: FirecrawlClient;
+    private responseBuffer: ResponseBuffer;
+    private resultStore: ResultStore;
+    private scrapeCache?: ScrapeCache;
+    private crawlWebhook?: CrawlWebhookReceiver;
     private config: ServerConfig;
+    private connection: ConnectionInfo;
 
     // Tool handlers
     private scrapeHandler: ScrapeHandler;
+    private batchScrapeHandler: BatchScrapeHandler;
+    private batchScrapeStatusHandler: BatchScrapeStatusHandler;
+    private extractHandler: ExtractHandler;
     private crawlHandler: CrawlHandler;
     private crawlStatusHandler: CrawlStatusHandler;
+    private crawlCancelHandler: CrawlCancelHandler;
+    private exportHandler: ExportHandler;
+    private mapHandler: MapHandler;
     private searchHandler: SearchHandler;
     private healthCheckHandler: HealthCheckHandler;
+    private readMoreHandler: ReadMoreHandler;
+    private cacheHandler: CacheHandler;
+    private logsHandler: LogsHandler;
 
-    constructor(config: ServerConfig, firecrawlConfig?: FirecrawlConfig) {
+    constructor(config: ServerConfig, firecrawlConfig: FirecrawlConfig | undefined = config.processManager) {
         this.config = config;
-        this.server = new McpServer({
-            name: "firecrawl-local",
-            version: "1.0.0"
-        });
 
-        // Initialize Firecrawl components
+        // Initialize Firecrawl components. A configured API URL means an existing
+        // instance is used and no local services are spawned.
+        const apiUrl = config.remote?.apiUrl?.replace(/\/+$/, '');
+        this.connection = {
+            mode: apiUrl ? 'remote' : 'managed',
+            baseUrl: apiUrl || `http://localhost:${firecrawlConfig?.port || 3002}`,
+            authenticated: !!config.remote?.apiKey
+        };
         this.processManager = new FirecrawlProcessManager(firecrawlConfig);
+        this.processManager.onProcessEvent(event => {
+            if (event.state === 'crashed') {
+                log.error(`Firecrawl ${event.process} crashed: ${event.message}`);
+            } else if (event.state === 'backoff') {
+                log.warn(`Firecrawl ${event.process} backing off: ${event.message}`);
+            } else if (event.state === 'ready' && event.status.restarts > 0) {
+                log.info(`Firecrawl ${event.process} recovered after ${event.status.restarts} restart(s)`);
+            }
+        });
         this.firecrawlClient = new FirecrawlClient(
-            `http://localhost:${firecrawlConfig?.port || 3002}`
+            this.connection.baseUrl,
+            undefined,
+            {
+                apiKey: config.remote?.apiKey,
+                headers: config.remote?.headers,
+                retry: {
+                    maxRetries: config.resilience?.maxRetries,
+                    baseDelayMs: config.resilience?.retryBaseDelayMs,
+                    maxDelayMs: config.resilience?.retryMaxDelayMs
+                },
+                circuitBreaker: {
+                    failureThreshold: config.resilience?.circuitFailureThreshold,
+                    resetTimeoutMs: config.resilience?.circuitResetMs
+                }
+            }
         );
 
+        // Oversized tool output is chunked and the remainder kept here for firecrawl_read_more
+        this.responseBuffer = new ResponseBuffer(config.responseBudget);
+        // Recent results, exposed as MCP resources
+        this.resultStore = new ResultStore();
+        if (config.cache?.enabled !== false) {
+            this.scrapeCache = new ScrapeCache(config.cache);
+        }
+        // A remote Firecrawl usually can't reach this machine, so webhooks need an explicit public URL there
+        if (config.webhooks?.enabled !== false && (this.connection.mode === 'managed' || config.webhooks?.publicUrl)) {
+            this.crawlWebhook = new CrawlWebhookReceiver(this.resultStore, config.webhooks);
+        }
+        // HTTP clients write to this machine's disk through firecrawl_export, so there it has to be opted into
+        const exportEnabled = config.transport.type !== 'http' || !!config.export?.directory;
+        const services = {
+            connection: this.connection,
+            responseBuffer: this.responseBuffer,
+            resultStore: this.resultStore,
+            scrapeCache: this.scrapeCache,
+            crawlWebhook: this.crawlWebhook,
+            screenshots: config.screenshots,
+            ...(exportEnabled && { crawlExporter: new CrawlExporter(config.export) }),
+            ...(this.connection.mode === 'managed' && { processManager: this.processManager })
+        };
+
         // Initialize tool handlers
-        this.scrapeHandler = new ScrapeHandler(this.firecrawlClient);
-        this.crawlHandler = new CrawlHandler(this.firecrawlClient);
-        this.crawlStatusHandler = new CrawlStatusHandler(this.firecrawlClient);
-        this.searchHandler = new SearchHandler(this.firecrawlClient);
-        this.healthCheckHandler = new HealthCheckHandler(this.firecrawlClient);
+        this.scrapeHandler = new ScrapeHandler(this.firecrawlClient, services);
+        this.batchScrapeHandler = new BatchScrapeHandler(this.firecrawlClient, services);
+        this.batchScrapeStatusHandler = new BatchScrapeStatusHandler(this.firecrawlClient, services);
+        this.extractHandler = new ExtractHandler(this.firecrawlClient, services);
+        this.crawlHandler = new CrawlHandler(this.firecrawlClient, services);
+        this.crawlStatusHandler = new CrawlStatusHandler(this.firecrawlClient, services);
+        this.crawlCancelHandler = new CrawlCancelHandler(this.firecrawlClient, services);
+        this.exportHandler = new ExportHandler(this.firecrawlClient, services);
+        this.mapHandler = new MapHandler(this.firecrawlClient, services);
+        this.searchHandler = new SearchHandler(this.firecrawlClient, services);
+        this.healthCheckHandler = new HealthCheckHandler(this.firecrawlClient, services);
+        this.readMoreHandler = new ReadMoreHandler(this.firecrawlClient, services);
+        this.cacheHandler = new CacheHandler(this.firecrawlClient, services);
+        this.logsHandler = new LogsHandler(this.firecrawlClient, services);
+
+        this.registerMetricsCollectors();
     }
 
     async initialize(): Promise<void> {
         // 1. Start Firecrawl services
-        console.log('Initializing Firecrawl MCP Server...');
-        await this.processManager.start();
-
-        // 2. Wait for services to be ready
-        let attempts = 0;
-        const maxAttempts = 10;
-        while (attempts < maxAttempts) {
-            const isHealthy = await this.firecrawlClient.healthCheck();
-            if (isHealthy) break;
-            
-            attempts++;
-            if (attempts >= maxAttempts) {
-                throw new McpError(
-                    ErrorCode.InternalError,
-                    'Firecrawl services failed to become healthy'
-                );
+        log.info('Initializing Firecrawl MCP Server...');
+        if (this.connection.mode === 'remote') {
+            log.info(`Using existing Firecrawl instance at ${this.connection.baseUrl}`);
+            // Remote instances may not expose the local /test endpoint, so don't block startup on it
+            if (!await this.firecrawlClient.healthCheck()) {
+                log.warn(`Firecrawl at ${this.connection.baseUrl} did not respond to a health check`);
             }
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+        } else {
+            await this.processManager.start();
 
-        // 3. Set up tool definitions
-        this.registerTools();
+            // 2. Wait for services to be ready
+            let attempts = 0;
+            const maxAttempts = 10;
+            while (attempts < maxAttempts) {
+                const isHealthy = await this.firecrawlClient.healthCheck();
+                if (isHealthy) break;
+                
+                attempts++;
+                if (attempts >= maxAttempts) {
+                    throw new McpError(
+                        ErrorCode.InternalError,
+                        'Firecrawl services failed to become healthy'
+                    );
+                }
+                await new Promise(resolve => setTimeout(resolve, 2000));
+            }
+        }
 
-        // 4. Set up graceful shutdown
+        // 3. Set up graceful shutdown
         this.setupGracefulShutdown();
+        this.setupMetricsDump();
 
-        console.log('Firecrawl MCP Server initialized successfully');
+        log.info('Firecrawl MCP Server initialized successfully');
     }
 
-    private extractSchemaShape(schema: any): any {
+    private extractSchemaShape(schema: any): ZodRawShape {
         const schemaAny = schema as any;
         
         // Handle ZodEffects (schemas with .refine())
@@ -109,80 +217,401 @@ export class FirecrawlMcpServer {
         return schemaAny._def?.schema?.shape || schemaAny.shape;
     }
 
-    private registerTools(): void {
+    // Applies the configured per-tool defaults and caps to validated arguments
+    private withToolSettings<T extends object>(tool: keyof typeof FirecrawlSchemas, args: T): T {
+        log.debug(`${tool} called`);
+        return applyToolSettings(this.config.tools, tool, args);
+    }
+
+    private async trackToolCall(tool: keyof typeof FirecrawlSchemas, run: () => Promise<CallToolResult>): Promise<CallToolResult> {
+        const startedAt = Date.now();
+        try {
+            const result = await run();
+            recordToolCall(tool, startedAt, result);
+            return result;
+        } catch (error) {
+            recordToolCall(tool, startedAt, undefined, error);
+            throw error;
+        }
+    }
+
+    // Each HTTP session needs its own McpServer, since a server connects to a single transport
+    private createMcpServer(): McpServer {
+        const http = this.config.transport.type === 'http';
+        // Stateless HTTP has no session IDs to tell clients' log records apart, so it doesn't offer logging at all
+        const mcpLogging = !(http && this.config.transport.stateless);
+        const server = new McpServer({
+            name: "firecrawl-local",
+            version: "1.0.0"
+        }, {
+            capabilities: mcpLogging ? { logging: {} } : {}
+        });
+        if (mcpLogging) {
+            attachMcpLogging(server, { sessionScoped: http });
+        }
+        this.attachCrawlUpdates(server);
+        this.registerTools(server);
+        this.registerResources(server);
+        return server;
+    }
+
+    // Pushes webhook updates for crawls this session started as resource-updated notifications
+    private attachCrawlUpdates(server: McpServer): void {
+        if (!this.crawlWebhook) {
+            return;
+        }
+
+        const unsubscribe = this.crawlWebhook.onUpdate(update => {
+            if (update.sessionId !== server.server.transport?.sessionId) {
+                return;
+            }
+            const uris = [
+                crawlResourceUri(update.jobId),
+                ...update.pageNumbers.map(pageNumber => crawlPageResourceUri(update.jobId, pageNumber))
+            ];
+            for (const uri of uris) {
+                server.server.sendResourceUpdated({ uri }).catch(() => {
+                    // Not connected yet or already gone; the client can still poll
+                });
+            }
+        });
+
+        const previousOnClose = server.server.onclose;
+        server.server.onclose = () => {
+            previousOnClose?.();
+            unsubscribe();
+        };
+    }
+
+    private registerTools(server: McpServer): void {
         // Register each tool using the modern MCP SDK API
-        this.server.registerTool(
+        server.registerTool(
             'firecrawl_scrape',
             {
-                description: 'Scrape a single web page and extract content in various formats. Parameters: url (required), formats (optional array), includeTags (optional), excludeTags (optional), onlyMainContent (optional boolean)',
+                description: 'Scrape a single web page and extract content in various formats. Screenshots (formats screenshot or screenshot@fullPage) are returned as image content. Parameters: url (required), formats (optional array), includeTags (optional), excludeTags (optional), onlyMainContent (optional boolean), jsonOptions (optional object with schema/prompt, used with the json format), actions (optional array of browser actions: wait, click, scroll, write, press, screenshot, executeJavascript), waitFor (optional ms), headers (optional object), mobile (optional boolean), location (optional object with country/languages), skipTlsVerification (optional boolean), removeBase64Images (optional boolean), screenshotOptions (optional object with maxWidth/maxHeight/fit for returned screenshots), maxAge (optional cache age in ms), bypassCache (optional boolean)',
                 inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_scrape'])
             },
-            async (args) => {
-                console.log('[DEBUG] Scrape handler received args:', JSON.stringify(args));
+            async (args, extra) => this.trackToolCall('firecrawl_scrape', async () => {
                 // Validate input using our Zod schema
-                const validatedArgs = FirecrawlSchemas['firecrawl_scrape'].parse(args);
-                console.log('[DEBUG] Validated args:', JSON.stringify(validatedArgs));
-                return await this.scrapeHandler.runTool(validatedArgs);
-            }
+                const validatedArgs = this.withToolSettings('firecrawl_scrape', FirecrawlSchemas['firecrawl_scrape'].parse(args));
+                return await this.scrapeHandler.runTool(validatedArgs, extra);
+            })
         );
 
-        this.server.registerTool(
+        server.registerTool(
+            'firecrawl_batch_scrape',
+            {
+                description: 'Scrape many known URLs in one asynchronous job. Returns a job ID to check with firecrawl_batch_scrape_status. Parameters: urls (required array), formats (optional array), includeTags (optional), excludeTags (optional), onlyMainContent (optional boolean), actions, waitFor, headers, mobile, location, skipTlsVerification, removeBase64Images (optional, as for firecrawl_scrape), ignoreInvalidURLs (optional boolean)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_batch_scrape'])
+            },
+            async (args) => this.trackToolCall('firecrawl_batch_scrape', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_batch_scrape', FirecrawlSchemas['firecrawl_batch_scrape'].parse(args));
+                return await this.batchScrapeHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_batch_scrape_status',
+            {
+                description: 'Check the status of a batch scrape job and get per-URL results, including the URLs that failed. Large results are paginated: pass the returned cursor to read the next batch, or set fetchAll to follow pagination automatically. Parameters: jobId (required string), cursor (optional string), fetchAll (optional boolean), maxPages (optional number, default 500), maxBytes (optional number)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_batch_scrape_status'])
+            },
+            async (args) => this.trackToolCall('firecrawl_batch_scrape_status', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_batch_scrape_status', FirecrawlSchemas['firecrawl_batch_scrape_status'].parse(args));
+                return await this.batchScrapeStatusHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_extract',
+            {
+                description: 'Extract structured JSON data from one or more pages using a JSON Schema and/or a prompt. The result is checked against the schema and mismatching fields are reported. Parameters: urls (required array), prompt (optional string), schema (optional JSON Schema object), systemPrompt (optional), enableWebSearch (optional boolean), timeout (optional number in ms, default 120000)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_extract'])
+            },
+            async (args) => this.trackToolCall('firecrawl_extract', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_extract', FirecrawlSchemas['firecrawl_extract'].parse(args));
+                return await this.extractHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
             'firecrawl_crawl',
             {
-                description: 'Crawl a website and extract content from multiple pages. Parameters: url (required), includePaths (optional), excludePaths (optional), maxDepth (optional number, default 2), limit (optional number, default 10), allowBackwardLinks (optional boolean), allowExternalLinks (optional boolean)',
+                description: 'Crawl a website and extract content from multiple pages. Parameters: url (required), includePaths (optional), excludePaths (optional), maxDepth (optional number, default 2), limit (optional number, default 10), allowBackwardLinks (optional boolean), allowExternalLinks (optional boolean), crawlEntireDomain (optional boolean), ignoreSitemap (optional boolean), ignoreQueryParameters (optional boolean), webhook (optional URL or object with url/headers/metadata/events), scrapeOptions (optional page options as for firecrawl_scrape, including actions, waitFor and headers), waitForCompletion (optional boolean, block until done and report progress), waitTimeout (optional number in ms, default 300000)',
                 inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_crawl'])
             },
-            async (args) => {
-                const validatedArgs = FirecrawlSchemas['firecrawl_crawl'].parse(args);
-                return await this.crawlHandler.runTool(validatedArgs);
-            }
+            async (args, extra) => this.trackToolCall('firecrawl_crawl', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_crawl', FirecrawlSchemas['firecrawl_crawl'].parse(args));
+                return await this.crawlHandler.runTool(validatedArgs, extra);
+            })
         );
 
-        this.server.registerTool(
+        server.registerTool(
             'firecrawl_crawl_status',
             {
-                description: 'Check the status of a crawl job. Parameters: jobId (required string)',
+                description: 'Check the status of a crawl job and read its results. Large results are paginated: pass the returned cursor to read the next batch, or set fetchAll to follow pagination automatically. Parameters: jobId (required string), cursor (optional string), fetchAll (optional boolean), maxPages (optional number, default 500), maxBytes (optional number), includeMarkdown (optional boolean)',
                 inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_crawl_status'])
             },
-            async (args) => {
-                const validatedArgs = FirecrawlSchemas['firecrawl_crawl_status'].parse(args);
-                return await this.crawlStatusHandler.runTool(validatedArgs);
-            }
+            async (args, extra) => this.trackToolCall('firecrawl_crawl_status', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_crawl_status', FirecrawlSchemas['firecrawl_crawl_status'].parse(args));
+                return await this.crawlStatusHandler.runTool(validatedArgs, extra);
+            })
         );
 
-        this.server.registerTool(
+        server.registerTool(
+            'firecrawl_crawl_cancel',
+            {
+                description: 'Cancel a running crawl job and return the pages collected so far. Parameters: jobId (required string)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_crawl_cancel'])
+            },
+            async (args, extra) => this.trackToolCall('firecrawl_crawl_cancel', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_crawl_cancel', FirecrawlSchemas['firecrawl_crawl_cancel'].parse(args));
+                return await this.crawlCancelHandler.runTool(validatedArgs, extra);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_export',
+            {
+                description: 'Export all pages of a crawl job to files under the configured export directory, for offline use or ingestion. Parameters: jobId (required string), format (optional: markdown | jsonl | single, default markdown), subdirectory (optional, default the job ID)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_export'])
+            },
+            async (args) => this.trackToolCall('firecrawl_export', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_export', FirecrawlSchemas['firecrawl_export'].parse(args));
+                return await this.exportHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_map',
+            {
+                description: 'Quickly discover the URLs on a website without scraping them. Parameters: url (required), search (optional string filter), includeSubdomains (optional boolean), sitemapOnly (optional boolean), ignoreSitemap (optional boolean), limit (optional number, default 100)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_map'])
+            },
+            async (args) => this.trackToolCall('firecrawl_map', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_map', FirecrawlSchemas['firecrawl_map'].parse(args));
+                return await this.mapHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
             'firecrawl_search',
             {
-                description: 'Search the web and scrape results. Parameters: query (required string), limit (optional number, default 5), location (optional string)',
+                description: 'Search the web and scrape results. Parameters: query (required string), limit (optional number, default 5), tbs (optional time filter such as qdr:d), filter (optional string), location (optional string), scrapeOptions (optional page options as for firecrawl_scrape, formats defaults to markdown)',
                 inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_search'])
             },
-            async (args) => {
-                const validatedArgs = FirecrawlSchemas['firecrawl_search'].parse(args);
+            async (args) => this.trackToolCall('firecrawl_search', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_search', FirecrawlSchemas['firecrawl_search'].parse(args));
                 return await this.searchHandler.runTool(validatedArgs);
-            }
+            })
         );
 
-        this.server.registerTool(
+        server.registerTool(
             'firecrawl_health',
             {
                 description: 'Check if Firecrawl services are running and healthy. No parameters required.',
                 inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_health'])
             },
-            async (args) => {
-                const validatedArgs = FirecrawlSchemas['firecrawl_health'].parse(args);
+            async (args) => this.trackToolCall('firecrawl_health', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_health', FirecrawlSchemas['firecrawl_health'].parse(args));
                 return await this.healthCheckHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_logs',
+            {
+                description: 'Read recent output of the Firecrawl processes managed by this server, e.g. to find out why a scrape failed inside Firecrawl. Parameters: process (optional: redis | workers | api), level (optional minimum: debug | info | warn | error), since (optional ISO time or duration like 15m), until (optional), contains (optional text), limit (optional number, default 100)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_logs'])
+            },
+            async (args) => this.trackToolCall('firecrawl_logs', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_logs', FirecrawlSchemas['firecrawl_logs'].parse(args));
+                return await this.logsHandler.runTool(validatedArgs);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_cache',
+            {
+                description: 'Inspect or purge the local scrape cache. Parameters: action (required: stats | list | purge), key (optional), url (optional), expiredOnly (optional boolean), limit (optional number)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_cache'])
+            },
+            async (args, extra) => this.trackToolCall('firecrawl_cache', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_cache', FirecrawlSchemas['firecrawl_cache'].parse(args));
+                return await this.cacheHandler.runTool(validatedArgs, extra);
+            })
+        );
+
+        server.registerTool(
+            'firecrawl_read_more',
+            {
+                description: 'Read the next chunk of a tool response that was truncated to fit the response budget. Parameters: continuationToken (required string from the truncated response), maxChars (optional number)',
+                inputSchema: this.extractSchemaShape(FirecrawlSchemas['firecrawl_read_more'])
+            },
+            async (args) => this.trackToolCall('firecrawl_read_more', async () => {
+                const validatedArgs = this.withToolSettings('firecrawl_read_more', FirecrawlSchemas['firecrawl_read_more'].parse(args));
+                return await this.readMoreHandler.runTool(validatedArgs);
+            })
+        );
+    }
+
+    private registerResources(server: McpServer): void {
+        server.resource(
+            'crawl',
+            new ResourceTemplate('firecrawl://crawl/{jobId}', {
+                list: (extra) => ({
+                    resources: this.resultStore.listCrawls(resultOwner(extra)).map(crawl => ({
+                        uri: crawlResourceUri(crawl.jobId),
+                        name: `Crawl ${crawl.jobId}${crawl.url ? ` (${crawl.url})` : ''}`,
+                        mimeType: 'application/json'
+                    }))
+                })
+            }),
+            {
+                description: 'Summary of a crawl job with links to each crawled page',
+                mimeType: 'application/json'
+            },
+            async (uri, variables, extra) => {
+                const crawl = await this.loadCrawl(String(variables.jobId), resultOwner(extra));
+                const summary = {
+                    jobId: crawl.jobId,
+                    ...(crawl.url && { url: crawl.url }),
+                    status: crawl.completed ? 'completed' : (crawl.status || 'in_progress'),
+                    ...(crawl.total && { total_pages: crawl.total }),
+                    pages: crawl.pages.map((page, index) => ({
+                        page_number: index + 1,
+                        uri: crawlPageResourceUri(crawl.jobId, index + 1),
+                        url: page?.metadata.sourceURL,
+                        title: page?.metadata.title
+                    })),
+                    updated_at: crawl.updatedAt
+                };
+                return {
+                    contents: [{
+                        uri: uri.href,
+                        mimeType: 'application/json',
+                        text: JSON.stringify(summary, null, 2)
+                    }]
+                };
             }
         );
+
+        server.resource(
+            'crawl-page',
+            new ResourceTemplate('firecrawl://crawl/{jobId}/page/{n}', { list: undefined }),
+            {
+                description: 'Markdown content of a single page from a crawl job (1-based page number)',
+                mimeType: 'text/markdown'
+            },
+            async (uri, variables, extra) => {
+                const pageNumber = parseInt(String(variables.n), 10);
+                const crawl = await this.loadCrawl(String(variables.jobId), resultOwner(extra), pageNumber);
+                const page = crawl.pages[pageNumber - 1];
+                if (!page) {
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        `Page ${variables.n} not found in crawl ${crawl.jobId}`
+                    );
+                }
+                return this.pageContents(uri, page);
+            }
+        );
+
+        server.resource(
+            'scrape',
+            new ResourceTemplate('firecrawl://scrape/{hash}', {
+                list: (extra) => ({
+                    resources: this.resultStore.listScrapes(resultOwner(extra)).map(scrape => ({
+                        uri: scrapeResourceUri(scrape.hash),
+                        name: scrape.result.metadata?.title || scrape.url,
+                        description: `Scraped from ${scrape.url} at ${scrape.scrapedAt}`,
+                        mimeType: 'text/markdown'
+                    }))
+                })
+            }),
+            {
+                description: 'Markdown content of a recent firecrawl_scrape result',
+                mimeType: 'text/markdown'
+            },
+            async (uri, variables, extra) => {
+                const scrape = this.resultStore.getScrape(String(variables.hash), resultOwner(extra));
+                if (!scrape) {
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        `Scrape result ${variables.hash} not found. Only recent scrapes are kept.`
+                    );
+                }
+                return this.pageContents(uri, scrape.result);
+            }
+        );
+    }
+
+    // Fetches crawl results from Firecrawl when the store doesn't have them yet
+    private async loadCrawl(jobId: string, owner: string | undefined, pageNumber?: number): Promise<StoredCrawl> {
+        const stored = this.resultStore.getCrawl(jobId, owner);
+        const hasPage = pageNumber === undefined || !!stored?.pages[pageNumber - 1];
+        if (stored && stored.completed && hasPage) {
+            return stored;
+        }
+
+        const result = await this.firecrawlClient.getCrawlStatus(jobId, { followNext: true });
+        return this.resultStore.recordCrawl(result, undefined, owner);
+    }
+
+    private pageContents(uri: URL, page: ScrapeResult): ReadResourceResult {
+        return {
+            contents: [{
+                uri: uri.href,
+                mimeType: 'text/markdown',
+                text: page.markdown ?? page.html ?? page.rawHtml ?? ''
+            }]
+        };
+    }
+
+    private registerMetricsCollectors(): void {
+        metrics.onCollect(() => activeCrawls.set({}, countActiveCrawls()));
+
+        if (this.connection.mode === 'managed') {
+            metrics.onCollect(() => {
+                for (const status of this.processManager.getStatus()) {
+                    processRestarts.set({ process: status.name }, status.restarts);
+                    processUp.set({ process: status.name }, status.state === 'ready' ? 1 : 0);
+                }
+            });
+        }
+    }
+
+    // Under stdio there is no /metrics endpoint, so SIGUSR2 writes a snapshot instead
+    private setupMetricsDump(): void {
+        if (process.platform === 'win32') {
+            return;
+        }
+
+        process.on('SIGUSR2', () => {
+            const snapshot = metrics.render();
+            const file = this.config.metrics?.file;
+            if (!file) {
+                process.stderr.write(snapshot);
+                return;
+            }
+            try {
+                writeFileSync(file, snapshot);
+                log.info(`Metrics written to ${file}`);
+            } catch (error) {
+                log.error('Failed to write metrics', { error, file });
+            }
+        });
     }
 
     private setupGracefulShutdown(): void {
         const cleanup = async () => {
-            console.log('Shutting down Firecrawl MCP Server...');
+            log.info('Shutting down Firecrawl MCP Server...');
             try {
+                this.crawlWebhook?.close();
                 await this.processManager.stop();
-                console.log('Firecrawl services stopped');
+                log.info('Firecrawl services stopped');
             } catch (error) {
-                console.error('Error during shutdown:', error);
+                log.error('Error during shutdown', { error });
             }
             process.exit(0);
         };
@@ -190,23 +619,33 @@ export class FirecrawlMcpServer {
         process.on('SIGINT', cleanup);
         process.on('SIGTERM', cleanup);
         process.on('uncaughtException', (error) => {
-            console.error('Uncaught exception:', error);
+            log.error('Uncaught exception', { error });
             cleanup();
         });
     }
 
     async start(): Promise<void> {
-        console.log('Starting Firecrawl MCP Server...');
+        log.info('Starting Firecrawl MCP Server...');
 
         if (this.config.transport.type === 'stdio') {
-            const stdioHandler = new StdioTransportHandler(this.server);
+            await this.crawlWebhook?.listen();
+            const stdioHandler = new StdioTransportHandler(this.createMcpServer());
             await stdioHandler.connect();
         } else if (this.config.transport.type === 'http') {
             const httpConfig: HttpTransportConfig = {
                 port: this.config.transport.port || 3000,
-                host: this.config.transport.host || 'localhost'
+                host: this.config.transport.host || 'localhost',
+                auth: this.config.transport.auth,
+                stateless: this.config.transport.stateless,
+                sessionIdleTimeoutMs: this.config.transport.sessionIdleTimeoutMs,
+                maxSessions: this.config.transport.maxSessions,
+                maxSessionsPerClient: this.config.transport.maxSessionsPerClient,
+                rateLimits: this.config.transport.rateLimits,
+                allowedOrigins: this.config.transport.allowedOrigins,
+                cors: this.config.transport.cors,
+                maxBodyBytes: this.config.transport.maxBodyBytes
             };
-            const httpHandler = new HttpTransportHandler(this.server, httpConfig);
+            const httpHandler = new HttpTransportHandler(() => this.createMcpServer(), httpConfig, this.crawlWebhook);
             await httpHandler.connect();
         } else {
             throw new McpError(
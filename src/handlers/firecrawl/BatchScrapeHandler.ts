@@ -0,0 +1,56 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { BatchScrapeOptions } from '../../firecrawl/client.js';
+
+export class BatchScrapeHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_batch_scrape']): Promise<CallToolResult> {
+        try {
+            const { urls, ...options } = args;
+
+            if (!urls || urls.length === 0) {
+                return this.formatResult('At least one URL is required', true);
+            }
+
+            // Validate URL formats up front so the whole batch isn't rejected upstream
+            const invalidUrls = urls.filter(url => {
+                try {
+                    new URL(url);
+                    return false;
+                } catch {
+                    return true;
+                }
+            });
+            if (invalidUrls.length > 0 && !options.ignoreInvalidURLs) {
+                return this.formatResult(`Invalid URL format: ${invalidUrls.join(', ')}`, true);
+            }
+
+            const batchOptions: BatchScrapeOptions = {
+                ...options,
+                formats: options.formats || ['markdown']
+            };
+
+            // Malformed URLs are reported together with the ones Firecrawl itself skips
+            const validUrls = urls.filter(url => !invalidUrls.includes(url));
+            if (validUrls.length === 0) {
+                return this.formatResult(`No valid URLs to scrape: ${invalidUrls.join(', ')}`, true);
+            }
+
+            const result = await this.client.batchScrape(validUrls, batchOptions);
+            const skippedUrls = [...invalidUrls, ...(result.invalidURLs || [])];
+
+            // Format the response
+            const response = {
+                jobId: result.jobId,
+                status: 'scraping',
+                urls_count: validUrls.length,
+                ...(skippedUrls.length > 0 && { invalid_urls: skippedUrls }),
+                message: 'Batch scrape started. Use firecrawl_batch_scrape_status with this job ID to retrieve results.'
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { BatchScrapeErrors, DEFAULT_COLLECT_LIMITS } from '../../firecrawl/client.js';
+
+export class BatchScrapeStatusHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_batch_scrape_status']): Promise<CallToolResult> {
+        try {
+            const { jobId } = args;
+
+            if (!jobId) {
+                return this.formatResult('Job ID is required', true);
+            }
+
+            const result = await this.client.getBatchScrapeStatus(jobId, {
+                cursor: args.cursor,
+                followNext: args.fetchAll,
+                maxPages: args.maxPages || DEFAULT_COLLECT_LIMITS.maxPages,
+                maxBytes: args.maxBytes || DEFAULT_COLLECT_LIMITS.maxBytes
+            });
+            const offset = result.offset || 0;
+            const images = await this.preparePageImages(result.data || []);
+
+            // Pages that loaded but came back with an error status still appear in data
+            const pages = (result.data || []).map((page, index) => {
+                const statusCode = page.metadata?.statusCode;
+                const error = page.metadata?.error;
+                const success = !error && (statusCode === undefined || statusCode < 400);
+                return {
+                    page_number: offset + index + 1,
+                    url: page.metadata?.sourceURL,
+                    success,
+                    ...(statusCode !== undefined && { status_code: statusCode }),
+                    ...(error && { error }),
+                    ...(success && {
+                        title: page.metadata?.title,
+                        markdown: page.markdown,
+                        ...(page.json !== undefined && { json: page.json }),
+                        ...(images.pages[index].screenshot && { screenshot: images.pages[index].screenshot }),
+                        ...(page.actions && { actions: this.formatActionOutputs(page.actions, images.pages[index].actionScreenshots) })
+                    })
+                };
+            });
+
+            // URLs that failed outright are left out of data and only reported by the errors endpoint.
+            // They cover the whole job, so they come with the first batch rather than every cursor read.
+            let errors: BatchScrapeErrors | undefined;
+            let errorsUnavailable: string | undefined;
+            if (!args.cursor) {
+                try {
+                    errors = await this.client.getBatchScrapeErrors(jobId);
+                } catch (error) {
+                    errorsUnavailable = error instanceof Error ? error.message : String(error);
+                }
+            }
+            const failedUrls = [
+                ...(errors?.errors || []).map(entry => ({ url: entry.url, success: false, error: entry.error })),
+                ...(errors?.robotsBlocked || []).map(url => ({ url, success: false, error: 'Blocked by robots.txt' }))
+            ];
+            const failedPages = pages.filter(page => !page.success).length;
+
+            // Format the response
+            const response = {
+                jobId: jobId,
+                status: result.status,
+                ...(result.total !== undefined && { total_urls: result.total }),
+                ...(result.completed !== undefined && { completed_urls: result.completed }),
+                succeeded_count: pages.length - failedPages,
+                failed_count: failedPages + failedUrls.length,
+                pages,
+                ...(failedUrls.length > 0 && { failed_urls: failedUrls }),
+                ...(errorsUnavailable && { errors_unavailable: `Failed URLs could not be read: ${errorsUnavailable}` }),
+                ...(result.cursor && {
+                    cursor: result.cursor,
+                    message: 'More results are available. Call firecrawl_batch_scrape_status again with this cursor to read the next batch.'
+                })
+            };
+
+            return this.formatResult(response, false, images.attachments);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
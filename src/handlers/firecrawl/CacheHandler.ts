@@ -0,0 +1,43 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler, ToolExtra } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { resultOwner } from '../../firecrawl/resultStore.js';
+
+export class CacheHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_cache'], extra?: ToolExtra): Promise<CallToolResult> {
+        try {
+            if (!this.scrapeCache) {
+                return this.formatResult('Scrape cache is disabled', true);
+            }
+
+            // Over HTTP each client only sees and purges the entries it stored
+            const owner = resultOwner(extra);
+
+            switch (args.action) {
+                case 'stats':
+                    return this.formatResult(await this.scrapeCache.stats(owner));
+                case 'list': {
+                    const entries = (await this.scrapeCache.list(owner))
+                        .filter(entry => !args.url || entry.url === args.url);
+                    const limit = args.limit || 50;
+                    return this.formatResult({
+                        entries_count: entries.length,
+                        entries: entries.slice(0, limit)
+                    });
+                }
+                case 'purge': {
+                    const removed = await this.scrapeCache.purge({
+                        key: args.key,
+                        url: args.url,
+                        expiredOnly: args.expiredOnly
+                    }, owner);
+                    return this.formatResult({ removed });
+                }
+                default:
+                    return this.formatResult(`Unknown cache action: ${args.action}`, true);
+            }
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
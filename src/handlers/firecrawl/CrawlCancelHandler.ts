@@ -0,0 +1,52 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler, ToolExtra } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { crawlPageNumber, crawlPageResourceUri, crawlResourceUri, resultOwner } from '../../firecrawl/resultStore.js';
+import { trackCrawl } from '../../metrics/serverMetrics.js';
+
+export class CrawlCancelHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_crawl_cancel'], extra?: ToolExtra): Promise<CallToolResult> {
+        try {
+            const { jobId } = args;
+
+            if (!jobId) {
+                return this.formatResult('Job ID is required', true);
+            }
+
+            const cancellation = await this.client.cancelCrawl(jobId);
+
+            // Report whatever the job managed to collect before it was stopped
+            const result = await this.client.getCrawlStatus(jobId);
+
+            const stored = this.resultStore?.recordCrawl(result, undefined, resultOwner(extra));
+            const pageNumbers = (result.data || []).map((page, index) => crawlPageNumber(stored, page, (result.offset || 0) + index));
+            // Firecrawl may still report the job as scraping right after the cancel
+            trackCrawl(jobId, 'cancelled');
+
+            // Format the response
+            const response = {
+                jobId: jobId,
+                ...(this.resultStore && { resource_uri: crawlResourceUri(jobId) }),
+                status: cancellation.status,
+                ...(result.total && { total_pages: result.total }),
+                ...(result.current && { current_page: result.current }),
+                ...(result.data && {
+                    pages_count: result.data.length,
+                    pages: result.data.map((page, index) => ({
+                        page_number: pageNumbers[index],
+                        url: page.metadata.sourceURL,
+                        title: page.metadata.title,
+                        ...(this.resultStore && { resource_uri: crawlPageResourceUri(jobId, pageNumbers[index]) }),
+                        has_markdown: !!page.markdown,
+                        metadata: page.metadata
+                    }))
+                }),
+                ...(result.cursor && { cursor: result.cursor })
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
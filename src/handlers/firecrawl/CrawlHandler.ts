@@ -1,25 +1,16 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
-import { CrawlOptions } from '../../firecrawl/client.js';
+import { FirecrawlBaseHandler, ToolExtra } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { CrawlOptions, CrawlResult, DEFAULT_COLLECT_LIMITS } from '../../firecrawl/client.js';
+import { crawlPageNumber, crawlPageResourceUri, crawlResourceUri, resultOwner } from '../../firecrawl/resultStore.js';
 
 export class CrawlHandler extends FirecrawlBaseHandler {
-    async runTool(args: {
-        url: string;
-        includePaths?: string[];
-        excludePaths?: string[];
-        maxDepth?: number;
-        limit?: number;
-        allowBackwardLinks?: boolean;
-        allowExternalLinks?: boolean;
-        scrapeOptions?: {
-            formats?: ('markdown' | 'html' | 'rawHtml' | 'links' | 'screenshot')[];
-            includeTags?: string[];
-            excludeTags?: string[];
-            onlyMainContent?: boolean;
-        };
-    }): Promise<CallToolResult> {
+    private static readonly POLL_INTERVAL_MS = 2000;
+    private static readonly DEFAULT_WAIT_TIMEOUT_MS = 300000;
+
+    async runTool(args: FirecrawlToolInputs['firecrawl_crawl'], extra?: ToolExtra): Promise<CallToolResult> {
         try {
-            const { url, ...options } = args;
+            const { url, waitForCompletion, waitTimeout, ...options } = args;
             
             if (!url) {
                 return this.formatResult('URL is required', true);
@@ -32,40 +23,98 @@ export class CrawlHandler extends FirecrawlBaseHandler {
                 return this.formatResult('Invalid URL format', true);
             }
 
+            // Pages are pushed to our own endpoint unless the caller brought a webhook of their own
+            const webhook = options.webhook || this.crawlWebhook?.webhookFor();
+            const pushUpdates = !options.webhook && !!webhook;
             const crawlOptions: CrawlOptions = {
-                maxDepth: options.maxDepth || 2,
-                limit: options.limit || 10,
+                ...options,
+                ...(webhook && { webhook }),
                 scrapeOptions: {
                     formats: ['markdown'],
                     ...options.scrapeOptions
-                },
-                ...options
+                }
             };
 
-            const result = await this.client.crawlWebsite(url, crawlOptions);
+            let result = await this.client.crawlWebsite(url, crawlOptions);
+            if (pushUpdates && result.jobId) {
+                this.crawlWebhook!.trackJob(result.jobId, extra?.sessionId, resultOwner(extra));
+            }
+
+            if (waitForCompletion && result.jobId && !result.completed) {
+                result = await this.waitForCrawl(result.jobId, waitTimeout || CrawlHandler.DEFAULT_WAIT_TIMEOUT_MS, extra);
+            }
+            const stored = this.resultStore?.recordCrawl(result, url, resultOwner(extra));
+            const pageNumbers = (result.data || []).map((page, index) => crawlPageNumber(stored, page, (result.offset || 0) + index));
+            const images = await this.preparePageImages(result.data || []);
             
             // Format the response
             const response = {
                 url: url,
                 jobId: result.jobId,
-                status: result.completed ? 'completed' : 'in_progress',
+                ...(this.resultStore && { resource_uri: crawlResourceUri(result.jobId) }),
+                status: result.completed ? 'completed'
+                    : (result.status === 'failed' || result.status === 'cancelled') ? result.status
+                    : 'in_progress',
                 ...(result.total && { total_pages: result.total }),
                 ...(result.current && { current_page: result.current }),
+                ...(pushUpdates && !result.completed && {
+                    updates: `New pages are announced with notifications/resources/updated for ${crawlResourceUri(result.jobId)} as they are crawled`
+                }),
                 ...(result.data && { 
                     pages: result.data.map((page, index) => ({
-                        page_number: index + 1,
+                        page_number: pageNumbers[index],
                         url: page.metadata.sourceURL,
                         title: page.metadata.title,
+                        ...(this.resultStore && { resource_uri: crawlPageResourceUri(result.jobId, pageNumbers[index]) }),
                         markdown: page.markdown,
+                        ...(page.html && { html: page.html }),
+                        ...(page.rawHtml && { rawHtml: page.rawHtml }),
+                        ...(page.links && { links: page.links }),
+                        ...(images.pages[index].screenshot && { screenshot: images.pages[index].screenshot }),
+                        ...(page.json !== undefined && { json: page.json }),
+                        ...(page.actions && { actions: this.formatActionOutputs(page.actions, images.pages[index].actionScreenshots) }),
                         metadata: page.metadata
                     }))
                 }),
-                ...(result.next && { next_batch_url: result.next })
+                ...(result.cursor && {
+                    cursor: result.cursor,
+                    message: 'More results are available. Call firecrawl_crawl_status with this cursor to read the next batch.'
+                })
             };
             
-            return this.formatResult(response);
+            return this.formatResult(response, false, images.attachments);
         } catch (error) {
             return this.formatResult(error instanceof Error ? error.message : String(error), true);
         }
     }
-}
\ No newline at end of file
+
+    private async waitForCrawl(jobId: string, timeoutMs: number, extra?: ToolExtra): Promise<CrawlResult> {
+        const deadline = Date.now() + timeoutMs;
+
+        while (true) {
+            const status = await this.client.getCrawlStatus(jobId);
+            const finished = status.completed || status.status === 'failed' || status.status === 'cancelled';
+
+            await this.sendProgress(
+                extra,
+                status.current || 0,
+                status.total || undefined,
+                `Crawled ${status.current || 0}${status.total ? ` of ${status.total}` : ''} pages`
+            );
+
+            if (finished) {
+                // Gather more than the first batch, up to the same caps as firecrawl_crawl_status
+                return await this.client.getCrawlStatus(jobId, { followNext: true, ...DEFAULT_COLLECT_LIMITS });
+            }
+
+            if (Date.now() >= deadline) {
+                throw new Error(`Crawl ${jobId} did not finish within ${timeoutMs}ms. Use firecrawl_crawl_status to keep following it.`);
+            }
+            if (extra?.signal.aborted) {
+                throw new Error(`Waiting for crawl ${jobId} was cancelled. The crawl itself is still running.`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, CrawlHandler.POLL_INTERVAL_MS));
+        }
+    }
+}
@@ -1,10 +1,11 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlBaseHandler, ToolExtra } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { DEFAULT_COLLECT_LIMITS } from '../../firecrawl/client.js';
+import { crawlPageNumber, crawlPageResourceUri, crawlResourceUri, resultOwner } from '../../firecrawl/resultStore.js';
 
 export class CrawlStatusHandler extends FirecrawlBaseHandler {
-    async runTool(args: {
-        jobId: string;
-    }): Promise<CallToolResult> {
+    async runTool(args: FirecrawlToolInputs['firecrawl_crawl_status'], extra?: ToolExtra): Promise<CallToolResult> {
         try {
             const { jobId } = args;
             
@@ -12,30 +13,49 @@ export class CrawlStatusHandler extends FirecrawlBaseHandler {
                 return this.formatResult('Job ID is required', true);
             }
 
-            const result = await this.client.getCrawlStatus(jobId);
+            const result = await this.client.getCrawlStatus(jobId, {
+                cursor: args.cursor,
+                followNext: args.fetchAll,
+                maxPages: args.maxPages || DEFAULT_COLLECT_LIMITS.maxPages,
+                maxBytes: args.maxBytes || DEFAULT_COLLECT_LIMITS.maxBytes
+            });
+            const offset = result.offset || 0;
             
+            const stored = this.resultStore?.recordCrawl(result, undefined, resultOwner(extra));
+            const pageNumbers = (result.data || []).map((page, index) => crawlPageNumber(stored, page, offset + index));
+            const images = await this.preparePageImages(result.data || []);
+
             // Format the response
             const response = {
                 jobId: jobId,
-                status: result.completed ? 'completed' : 'in_progress',
+                ...(this.resultStore && { resource_uri: crawlResourceUri(jobId) }),
+                status: result.completed ? 'completed' : (result.status || 'in_progress'),
                 ...(result.total && { total_pages: result.total }),
                 ...(result.current && { current_page: result.current }),
                 ...(result.data && { 
                     pages_count: result.data.length,
+                    ...(offset > 0 && { first_page_number: pageNumbers[0] }),
                     pages: result.data.map((page, index) => ({
-                        page_number: index + 1,
+                        page_number: pageNumbers[index],
                         url: page.metadata.sourceURL,
                         title: page.metadata.title,
+                        ...(this.resultStore && { resource_uri: crawlPageResourceUri(jobId, pageNumbers[index]) }),
                         has_markdown: !!page.markdown,
+                        ...(args.includeMarkdown && { markdown: page.markdown }),
+                        ...(images.pages[index].screenshot && { screenshot: images.pages[index].screenshot }),
+                        ...(page.actions && { actions: this.formatActionOutputs(page.actions, images.pages[index].actionScreenshots) }),
                         metadata: page.metadata
                     }))
                 }),
-                ...(result.next && { next_batch_url: result.next })
+                ...(result.cursor && {
+                    cursor: result.cursor,
+                    message: 'More results are available. Call firecrawl_crawl_status again with this cursor to read the next batch.'
+                })
             };
             
-            return this.formatResult(response);
+            return this.formatResult(response, false, images.attachments);
         } catch (error) {
             return this.formatResult(error instanceof Error ? error.message : String(error), true);
         }
     }
-}
\ No newline at end of file
+}
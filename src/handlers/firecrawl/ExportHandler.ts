@@ -0,0 +1,67 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { trackCrawl } from '../../metrics/serverMetrics.js';
+
+const MAX_LISTED_FILES = 50;
+
+export class ExportHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_export']): Promise<CallToolResult> {
+        try {
+            const { jobId } = args;
+
+            if (!jobId) {
+                return this.formatResult('Job ID is required', true);
+            }
+            if (!this.crawlExporter) {
+                return this.formatResult('Crawl export is disabled. Over HTTP it needs an export directory (export.directory, --export-dir or FIRECRAWL_EXPORT_DIR).', true);
+            }
+
+            // Pages are written one Firecrawl batch at a time and not kept in the result store,
+            // so exporting a large crawl doesn't hold all of it in memory
+            let result = await this.client.getCrawlStatus(jobId);
+            if (!result.data?.length && !result.cursor) {
+                return this.formatResult(`Crawl ${jobId} has no pages to export (status: ${result.status || 'unknown'})`, true);
+            }
+
+            const client = this.client;
+            const batches = async function* () {
+                yield result.data || [];
+                while (result.cursor) {
+                    result = await client.getCrawlStatus(jobId, { cursor: result.cursor });
+                    yield result.data || [];
+                }
+            };
+
+            const format = args.format || 'markdown';
+            const summary = await this.crawlExporter.export({
+                jobId,
+                format,
+                subdirectory: args.subdirectory,
+                batches: batches()
+            });
+            trackCrawl(jobId, result.status, result.completed);
+
+            const response = {
+                jobId,
+                status: result.completed ? 'completed' : (result.status || 'in_progress'),
+                ...(!result.completed && {
+                    warning: 'The crawl has not finished; only the pages crawled so far were exported'
+                }),
+                format,
+                directory: summary.directory,
+                ...(summary.index && { index: summary.index }),
+                files_count: summary.files.length,
+                files: summary.files.slice(0, MAX_LISTED_FILES),
+                ...(summary.files.length > MAX_LISTED_FILES && {
+                    files_truncated: `${summary.files.length - MAX_LISTED_FILES} more files not listed`
+                }),
+                ...(summary.skipped.length > 0 && { skipped: summary.skipped })
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
@@ -0,0 +1,62 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { ExtractOptions, ExtractStatus } from '../../firecrawl/client.js';
+import { validateAgainstSchema } from '../../firecrawl/jsonSchemaValidator.js';
+
+export class ExtractHandler extends FirecrawlBaseHandler {
+    private static readonly POLL_INTERVAL_MS = 2000;
+
+    async runTool(args: FirecrawlToolInputs['firecrawl_extract']): Promise<CallToolResult> {
+        try {
+            const { urls, timeout, ...options } = args;
+
+            if (!urls || urls.length === 0) {
+                return this.formatResult('At least one URL is required', true);
+            }
+
+            if (!options.prompt && !options.schema) {
+                return this.formatResult('Either prompt or schema is required', true);
+            }
+
+            const extractOptions: ExtractOptions = options;
+            const job = await this.client.extract(urls, extractOptions);
+
+            // Extraction runs asynchronously upstream; wait for it to settle
+            const deadline = Date.now() + (timeout || 120000);
+            let status: ExtractStatus = await this.client.getExtractStatus(job.jobId);
+            while (status.status === 'processing' && Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, ExtractHandler.POLL_INTERVAL_MS));
+                status = await this.client.getExtractStatus(job.jobId);
+            }
+
+            if (status.status === 'processing') {
+                return this.formatResult(`Extraction ${job.jobId} did not finish within ${timeout || 120000}ms`, true);
+            }
+
+            if (status.status !== 'completed') {
+                return this.formatResult(`Extraction ${job.jobId} ${status.status}: ${status.error || 'Unknown error'}`, true);
+            }
+
+            const mismatches = options.schema ? validateAgainstSchema(status.data, options.schema) : [];
+
+            // Format the response
+            const response = {
+                urls: urls,
+                jobId: job.jobId,
+                data: status.data,
+                ...(options.schema && {
+                    schema_validation: {
+                        valid: mismatches.length === 0,
+                        ...(mismatches.length > 0 && { mismatches })
+                    }
+                }),
+                ...(status.warning && { warning: status.warning })
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
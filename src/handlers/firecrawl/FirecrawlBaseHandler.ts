@@ -1,16 +1,155 @@
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { FirecrawlClient } from '../../firecrawl/client.js';
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { FirecrawlClient, ScrapeResult } from '../../firecrawl/client.js';
+import { ResponseBuffer, ResponseChunk } from '../../firecrawl/responseBuffer.js';
+import { ResultStore } from '../../firecrawl/resultStore.js';
+import { ScrapeCache } from '../../firecrawl/scrapeCache.js';
+import { FirecrawlProcessManager } from '../../firecrawl/processManager.js';
+import { CrawlWebhookReceiver } from '../../firecrawl/crawlWebhook.js';
+import { prepareScreenshot, ScreenshotOptions } from '../../firecrawl/screenshots.js';
+import { CrawlExporter } from '../../firecrawl/crawlExport.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// A single text, image, audio or resource part of a tool result
+export type ToolContent = CallToolResult['content'][number];
+
+export interface ConnectionInfo {
+    mode: 'managed' | 'remote';
+    baseUrl: string;
+    authenticated: boolean;
+}
+
+// Shared server-side state handed to every handler
+export interface HandlerServices {
+    connection?: ConnectionInfo;
+    responseBuffer?: ResponseBuffer;
+    resultStore?: ResultStore;
+    scrapeCache?: ScrapeCache;
+    // Set when crawl webhooks are enabled
+    crawlWebhook?: CrawlWebhookReceiver;
+    // Default size caps for screenshots returned as images
+    screenshots?: ScreenshotOptions;
+    crawlExporter?: CrawlExporter;
+    // Only set when this server manages the Firecrawl processes
+    processManager?: FirecrawlProcessManager;
+}
+
+// Crawls and searches can return hundreds of pages; screenshots past this many are described but not attached
+const MAX_PAGE_IMAGES = 10;
+
+export interface PageImages {
+    screenshot?: Record<string, unknown>;
+    actionScreenshots: Record<string, unknown>[];
+}
 
 export abstract class FirecrawlBaseHandler {
     protected client: FirecrawlClient;
+    protected connection?: ConnectionInfo;
+    protected responseBuffer?: ResponseBuffer;
+    protected resultStore?: ResultStore;
+    protected scrapeCache?: ScrapeCache;
+    protected crawlWebhook?: CrawlWebhookReceiver;
+    protected screenshots?: ScreenshotOptions;
+    protected crawlExporter?: CrawlExporter;
+    protected processManager?: FirecrawlProcessManager;
 
-    constructor(client: FirecrawlClient) {
+    constructor(client: FirecrawlClient, services: HandlerServices = {}) {
         this.client = client;
+        this.connection = services.connection;
+        this.responseBuffer = services.responseBuffer;
+        this.resultStore = services.resultStore;
+        this.scrapeCache = services.scrapeCache;
+        this.crawlWebhook = services.crawlWebhook;
+        this.screenshots = services.screenshots;
+        this.crawlExporter = services.crawlExporter;
+        this.processManager = services.processManager;
+    }
+
+    abstract runTool(args: any, extra?: ToolExtra): Promise<CallToolResult>;
+
+    protected async sendProgress(extra: ToolExtra | undefined, progress: number, total?: number, message?: string): Promise<void> {
+        const progressToken = extra?._meta?.progressToken;
+        if (progressToken === undefined) {
+            return;
+        }
+
+        try {
+            await extra!.sendNotification({
+                method: 'notifications/progress',
+                params: {
+                    progressToken,
+                    progress,
+                    ...(total !== undefined && { total }),
+                    ...(message && { message })
+                }
+            });
+        } catch {
+            // Progress is best effort; a client that went away shouldn't fail the tool call
+        }
+    }
+
+    // Outputs of screenshot, scrape and executeJavascript actions, omitting kinds that produced nothing.
+    // Pass the descriptions from preparePageImages so screenshot data stays out of the JSON.
+    protected formatActionOutputs(actions: NonNullable<ScrapeResult['actions']>, screenshots: unknown[] = []) {
+        return {
+            ...(screenshots.length > 0 && { screenshots }),
+            ...(actions.scrapes?.length && { scrapes: actions.scrapes }),
+            ...(actions.javascriptReturns?.length && { javascript_returns: actions.javascriptReturns })
+        };
+    }
+
+    // Screenshots are returned as image content; the JSON only describes them, since base64 costs tokens
+    protected async prepareImages(sources: string[], options: ScreenshotOptions, maxImages = Infinity) {
+        const attachments: ToolContent[] = [];
+        const descriptions: Record<string, unknown>[] = [];
+
+        for (const source of sources) {
+            const url = /^https?:\/\//i.test(source) ? source : undefined;
+            if (attachments.length >= maxImages) {
+                descriptions.push({ ...(url && { url }), omitted: `Only the first ${maxImages} screenshots are attached` });
+                continue;
+            }
+            try {
+                const image = await prepareScreenshot(source, options);
+                attachments.push({ type: 'image', data: image.data, mimeType: image.mimeType });
+                descriptions.push({
+                    image_index: attachments.length,
+                    mime_type: image.mimeType,
+                    ...(image.width && { width: image.width, height: image.height }),
+                    ...(image.resized && { resized: true }),
+                    ...(image.cropped && { cropped: true }),
+                    ...(url && { url })
+                });
+            } catch (error) {
+                descriptions.push({
+                    ...(url && { url }),
+                    error: `Screenshot could not be attached: ${error instanceof Error ? error.message : String(error)}`
+                });
+            }
+        }
+
+        return { attachments, descriptions };
     }
 
-    abstract runTool(args: any): Promise<CallToolResult>;
+    // The page screenshot and action screenshots of each page, in page order
+    protected async preparePageImages(pages: ScrapeResult[], options: ScreenshotOptions = this.screenshots || {}, maxImages = MAX_PAGE_IMAGES) {
+        const sources = pages.flatMap(page => [...(page.screenshot ? [page.screenshot] : []), ...(page.actions?.screenshots || [])]);
+        const images = await this.prepareImages(sources, options, maxImages);
+
+        let next = 0;
+        const pageImages = pages.map((page): PageImages => {
+            const screenshot = page.screenshot ? images.descriptions[next++] : undefined;
+            const actionCount = page.actions?.screenshots?.length || 0;
+            const actionScreenshots = images.descriptions.slice(next, next + actionCount);
+            next += actionCount;
+            return { screenshot, actionScreenshots };
+        });
+        return { attachments: images.attachments, pages: pageImages };
+    }
 
-    protected formatResult(data: any, isError: boolean = false): CallToolResult {
+    // Attachments such as images follow the text, which is paginated on its own
+    protected formatResult(data: any, isError: boolean = false, attachments: ToolContent[] = []): CallToolResult {
         if (isError) {
             return {
                 content: [{
@@ -21,11 +160,35 @@ export abstract class FirecrawlBaseHandler {
             };
         }
 
-        return {
-            content: [{
+        const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+        if (!this.responseBuffer) {
+            return {
+                content: [{
+                    type: "text",
+                    text
+                }, ...attachments]
+            };
+        }
+
+        const result = this.formatChunk(this.responseBuffer.paginate(text));
+        result.content.push(...attachments);
+        return result;
+    }
+
+    protected formatChunk(chunk: ResponseChunk): CallToolResult {
+        const content: CallToolResult['content'] = [{
+            type: "text",
+            text: chunk.text
+        }];
+
+        if (chunk.continuationToken) {
+            content.push({
                 type: "text",
-                text: typeof data === 'string' ? data : JSON.stringify(data, null, 2)
-            }]
-        };
+                text: `[Response truncated: showing characters ${chunk.start}-${chunk.end} of ${chunk.totalLength}. ` +
+                    `Call firecrawl_read_more with continuationToken "${chunk.continuationToken}" to read the next chunk.]`
+            });
+        }
+
+        return { content };
     }
 }
\ No newline at end of file
@@ -1,16 +1,41 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
 
 export class HealthCheckHandler extends FirecrawlBaseHandler {
-    async runTool(args: {}): Promise<CallToolResult> {
+    async runTool(args: FirecrawlToolInputs['firecrawl_health']): Promise<CallToolResult> {
         try {
             const isHealthy = await this.client.healthCheck();
+            const circuitBreaker = this.client.getCircuitStatus();
+            const processes = this.processManager?.getStatus();
+            const degraded = isHealthy && !!processes?.some(proc => proc.state !== 'ready');
             
             const response = {
-                status: isHealthy ? 'healthy' : 'unhealthy',
-                message: isHealthy 
-                    ? 'Firecrawl services are running and accessible'
-                    : 'Firecrawl services are not responding',
+                status: !isHealthy ? 'unhealthy' : degraded ? 'degraded' : 'healthy',
+                message: !isHealthy
+                    ? 'Firecrawl services are not responding'
+                    : degraded
+                    ? 'Firecrawl API is accessible but some services are restarting or down'
+                    : 'Firecrawl services are running and accessible',
+                ...(this.connection && {
+                    mode: this.connection.mode,
+                    api_url: this.connection.baseUrl,
+                    authenticated: this.connection.authenticated
+                }),
+                circuit_breaker: circuitBreaker,
+                ...(processes && {
+                    processes: processes.map(proc => ({
+                        name: proc.name,
+                        state: proc.state,
+                        managed: proc.managed,
+                        restarts: proc.restarts,
+                        since: proc.since,
+                        ...(proc.pid && { pid: proc.pid }),
+                        ...(proc.gaveUp && { gave_up: true }),
+                        ...(proc.lastError && { last_error: proc.lastError }),
+                        ...(proc.nextRestartAt && { next_restart_at: proc.nextRestartAt })
+                    }))
+                }),
                 timestamp: new Date().toISOString()
             };
             
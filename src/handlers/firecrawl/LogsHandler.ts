@@ -0,0 +1,50 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+export class LogsHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_logs']): Promise<CallToolResult> {
+        try {
+            if (!this.processManager) {
+                return this.formatResult('Service logs are only available when this server starts Firecrawl itself (not with FIRECRAWL_API_URL)', true);
+            }
+
+            const since = args.since ? this.parseTime(args.since) : undefined;
+            const until = args.until ? this.parseTime(args.until) : undefined;
+            if (since === null || until === null) {
+                return this.formatResult('since and until must be an ISO timestamp or a duration such as 30s, 15m, 2h or 1d', true);
+            }
+
+            const entries = this.processManager.getLogs().query({
+                process: args.process,
+                level: args.level,
+                since,
+                until,
+                contains: args.contains,
+                limit: args.limit || 100
+            });
+
+            const response = {
+                ...(args.process && { process: args.process }),
+                entries_count: entries.length,
+                entries
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+
+    // Accepts an ISO timestamp or a duration meaning "that long ago"
+    private parseTime(value: string): Date | null {
+        const duration = /^(\d+)\s*([smhd])$/.exec(value.trim());
+        if (duration) {
+            return new Date(Date.now() - parseInt(duration[1], 10) * DURATION_UNITS_MS[duration[2]]);
+        }
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+}
@@ -0,0 +1,43 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { MapOptions } from '../../firecrawl/client.js';
+
+export class MapHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_map']): Promise<CallToolResult> {
+        try {
+            const { url, ...options } = args;
+
+            if (!url) {
+                return this.formatResult('URL is required', true);
+            }
+
+            // Validate URL format
+            try {
+                new URL(url);
+            } catch {
+                return this.formatResult('Invalid URL format', true);
+            }
+
+            if (options.sitemapOnly && options.ignoreSitemap) {
+                return this.formatResult('sitemapOnly and ignoreSitemap cannot both be set', true);
+            }
+
+            const mapOptions: MapOptions = { ...options };
+
+            const result = await this.client.mapUrl(url, mapOptions);
+
+            // Format the response
+            const response = {
+                url: url,
+                ...(options.search && { search: options.search }),
+                links_count: result.links.length,
+                links: result.links
+            };
+
+            return this.formatResult(response);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+
+export class ReadMoreHandler extends FirecrawlBaseHandler {
+    async runTool(args: FirecrawlToolInputs['firecrawl_read_more']): Promise<CallToolResult> {
+        try {
+            const { continuationToken, maxChars } = args;
+
+            if (!continuationToken) {
+                return this.formatResult('Continuation token is required', true);
+            }
+
+            const chunk = this.responseBuffer?.read(continuationToken, maxChars);
+            if (!chunk) {
+                return this.formatResult('Continuation token is invalid or has expired. Re-run the original tool call.', true);
+            }
+
+            return this.formatChunk(chunk);
+        } catch (error) {
+            return this.formatResult(error instanceof Error ? error.message : String(error), true);
+        }
+    }
+}
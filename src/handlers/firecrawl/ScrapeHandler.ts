@@ -1,19 +1,14 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
-import { ScrapeOptions } from '../../firecrawl/client.js';
+import { FirecrawlBaseHandler, ToolExtra } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
+import { ScrapeOptions, JsonExtractionOptions } from '../../firecrawl/client.js';
+import { validateAgainstSchema } from '../../firecrawl/jsonSchemaValidator.js';
+import { resultOwner, scrapeResourceUri } from '../../firecrawl/resultStore.js';
 
 export class ScrapeHandler extends FirecrawlBaseHandler {
-    async runTool(args: {
-        url: string;
-        formats?: ('markdown' | 'html' | 'rawHtml' | 'links' | 'screenshot')[];
-        includeTags?: string[];
-        excludeTags?: string[];
-        onlyMainContent?: boolean;
-        timeout?: number;
-    }): Promise<CallToolResult> {
+    async runTool(args: FirecrawlToolInputs['firecrawl_scrape'], extra?: ToolExtra): Promise<CallToolResult> {
         try {
-            console.log('[DEBUG] ScrapeHandler received args:', JSON.stringify(args));
-            const { url, ...options } = args;
+            const { url, maxAge, bypassCache, screenshotOptions, ...options } = args;
             
             if (!url) {
                 return this.formatResult(`URL is required. Received args: ${JSON.stringify(args)}`, true);
@@ -26,29 +21,77 @@ export class ScrapeHandler extends FirecrawlBaseHandler {
                 return this.formatResult('Invalid URL format', true);
             }
 
+            const formats = options.formats || [];
+            if (formats.includes('json') && !options.jsonOptions?.schema && !options.jsonOptions?.prompt) {
+                return this.formatResult("The 'json' format requires jsonOptions with a schema or prompt", true);
+            }
+            if (formats.includes('extract') && !options.extractOptions?.schema && !options.extractOptions?.prompt) {
+                return this.formatResult("The 'extract' format requires extractOptions with a schema or prompt", true);
+            }
+
             const scrapeOptions: ScrapeOptions = {
                 formats: options.formats || ['markdown'],
                 ...options
             };
 
-            const result = await this.client.scrapeUrl(url, scrapeOptions);
+            // Actions click, type and submit on the page, so replaying their result would skip side effects
+            const scrapeCache = options.actions?.length ? undefined : this.scrapeCache;
+            const owner = resultOwner(extra);
+            const cached = scrapeCache && !bypassCache
+                ? await scrapeCache.get(url, scrapeOptions, maxAge, owner)
+                : undefined;
+            const result = cached ? cached.result : await this.client.scrapeUrl(url, scrapeOptions);
+            if (scrapeCache && !cached) {
+                // A cache write failure shouldn't cost the caller a successful scrape
+                await scrapeCache.set(url, scrapeOptions, result, owner).catch(() => undefined);
+            }
+            const stored = this.resultStore?.recordScrape(url, scrapeOptions, result, owner);
+
+            const images = await this.preparePageImages([result], { ...this.screenshots, ...screenshotOptions }, Infinity);
+            const { screenshot, actionScreenshots } = images.pages[0];
             
             // Format the response for better readability
             const response = {
                 url: url,
+                ...(stored && { resource_uri: scrapeResourceUri(stored.hash) }),
                 scraped_data: {
                     ...(result.markdown && { markdown: result.markdown }),
                     ...(result.html && { html: result.html }),
                     ...(result.rawHtml && { rawHtml: result.rawHtml }),
                     ...(result.links && { links: result.links }),
-                    ...(result.screenshot && { screenshot: result.screenshot })
+                    ...(screenshot && { screenshot }),
+                    ...(result.json !== undefined && { json: result.json }),
+                    ...(result.extract !== undefined && { extract: result.extract })
                 },
+                ...(this.checkExtraction(result.json, options.jsonOptions) ||
+                    this.checkExtraction(result.extract, options.extractOptions)),
+                ...(result.actions && { actions: this.formatActionOutputs(result.actions, actionScreenshots) }),
+                ...(result.warning && { warning: result.warning }),
+                ...(scrapeCache && {
+                    cache: cached
+                        ? { hit: true, stored_at: new Date(cached.storedAt).toISOString(), age_seconds: Math.round((Date.now() - cached.storedAt) / 1000) }
+                        : { hit: false, ...(bypassCache && { bypassed: true }) }
+                }),
                 metadata: result.metadata
             };
             
-            return this.formatResult(response);
+            return this.formatResult(response, false, images.attachments);
         } catch (error) {
             return this.formatResult(error instanceof Error ? error.message : String(error), true);
         }
     }
-}
\ No newline at end of file
+
+    private checkExtraction(data: any, extraction?: JsonExtractionOptions) {
+        if (data === undefined || !extraction?.schema) {
+            return undefined;
+        }
+
+        const mismatches = validateAgainstSchema(data, extraction.schema);
+        return {
+            schema_validation: {
+                valid: mismatches.length === 0,
+                ...(mismatches.length > 0 && { mismatches })
+            }
+        };
+    }
+}
@@ -1,21 +1,10 @@
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { FirecrawlBaseHandler } from './FirecrawlBaseHandler.js';
+import { FirecrawlToolInputs } from '../../firecrawl/schemas.js';
 import { SearchOptions } from '../../firecrawl/client.js';
 
 export class SearchHandler extends FirecrawlBaseHandler {
-    async runTool(args: {
-        query: string;
-        limit?: number;
-        tbs?: string;
-        filter?: string;
-        location?: string;
-        scrapeOptions?: {
-            formats?: ('markdown' | 'html' | 'rawHtml' | 'links' | 'screenshot')[];
-            includeTags?: string[];
-            excludeTags?: string[];
-            onlyMainContent?: boolean;
-        };
-    }): Promise<CallToolResult> {
+    async runTool(args: FirecrawlToolInputs['firecrawl_search']): Promise<CallToolResult> {
         try {
             const { query, ...options } = args;
             
@@ -24,13 +13,12 @@ export class SearchHandler extends FirecrawlBaseHandler {
             }
 
             const searchOptions: SearchOptions = {
+                ...options,
                 query,
-                limit: options.limit || 5,
                 scrapeOptions: {
                     formats: ['markdown'],
                     ...options.scrapeOptions
-                },
-                ...options
+                }
             };
 
             const result = await this.client.searchAndScrape(searchOptions);
@@ -38,6 +26,7 @@ export class SearchHandler extends FirecrawlBaseHandler {
             // Format the response
             // Result is an array of ScrapeResult directly
             const results = Array.isArray(result) ? result : [];
+            const images = await this.preparePageImages(results);
             const response = {
                 query: query,
                 results_count: results.length,
@@ -47,11 +36,17 @@ export class SearchHandler extends FirecrawlBaseHandler {
                     title: page.metadata?.title,
                     description: page.metadata?.description,
                     markdown: page.markdown,
+                    ...(page.html && { html: page.html }),
+                    ...(page.rawHtml && { rawHtml: page.rawHtml }),
+                    ...(page.links && { links: page.links }),
+                    ...(images.pages[index].screenshot && { screenshot: images.pages[index].screenshot }),
+                    ...(page.json !== undefined && { json: page.json }),
+                    ...(page.actions && { actions: this.formatActionOutputs(page.actions, images.pages[index].actionScreenshots) }),
                     metadata: page.metadata
                 }))
             };
             
-            return this.formatResult(response);
+            return this.formatResult(response, false, images.attachments);
         } catch (error) {
             return this.formatResult(error instanceof Error ? error.message : String(error), true);
         }
@@ -1,6 +1,9 @@
 import { fileURLToPath } from "url";
 import { FirecrawlMcpServer } from './firecrawlServer.js';
 import { parseArgs } from './config/TransportConfig.js';
+import { ApiKeyStore } from './auth/apiKeyStore.js';
+import { FirecrawlSchemas } from './firecrawl/schemas.js';
+import { captureConsole, logger } from './logging/logger.js';
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 
@@ -14,18 +17,18 @@ const VERSION = packageJson.version;
 // --- Main Application Logic --- 
 async function main() {
   try {
-    // Parse command line arguments
+    // Parse command line arguments, environment and config file
     const config = parseArgs(process.argv.slice(2));
-    
-    // Create Firecrawl config from environment
-    const firecrawlConfig = {
-      firecrawlPath: process.env.FIRECRAWL_PATH || process.cwd(),
-      redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
-      port: parseInt(process.env.FIRECRAWL_PORT || '3002')
-    };
+
+    // Logs go to stderr or a file; stdout is reserved for the stdio transport
+    logger.configure({
+      ...config.logging,
+      ...(config.debug && { level: 'debug' })
+    });
+    captureConsole();
     
     // Create and initialize the Firecrawl server
-    const server = new FirecrawlMcpServer(config, firecrawlConfig);
+    const server = new FirecrawlMcpServer(config, config.processManager);
     await server.initialize();
     
     // Start the server with the appropriate transport
@@ -66,6 +69,98 @@ async function checkFirecrawlSetup(): Promise<void> {
   }
 }
 
+function manageApiKeys(args: string[]): void {
+  const subcommand = args[0];
+  let keysFile = process.env.MCP_API_KEYS_FILE;
+  let name: string | undefined;
+  let tools: string[] = ['*'];
+  const positional: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    switch (args[i]) {
+      case '--api-keys-file':
+        keysFile = args[++i];
+        break;
+      case '--name':
+        name = args[++i];
+        break;
+      case '--tools':
+        tools = (args[++i] || '').split(',').map(tool => tool.trim()).filter(Boolean);
+        break;
+      default:
+        positional.push(args[i]);
+    }
+  }
+
+  const store = new ApiKeyStore(keysFile);
+
+  switch (subcommand) {
+    case 'generate': {
+      // A typo would otherwise produce a key that can't call the intended tool
+      const toolNames = Object.keys(FirecrawlSchemas);
+      const unknown = tools.filter(tool => tool !== '*' && !toolNames.includes(tool));
+      if (unknown.length > 0) {
+        process.stderr.write(`Unknown tool(s): ${unknown.join(', ')}\nValid tools: ${toolNames.join(', ')} (or * for all)\n`);
+        process.exit(1);
+      }
+      const { key, record } = store.generate(name || positional[0] || 'default', tools);
+      process.stdout.write(`Generated API key "${record.name}" (id ${record.id}) for tools: ${record.tools.join(', ')}\n`);
+      process.stdout.write(`\n  ${key}\n\n`);
+      process.stdout.write(`Store it now; only its hash is saved in ${store.path}\n`);
+      break;
+    }
+    case 'revoke': {
+      const target = positional[0];
+      if (!target) {
+        process.stderr.write('Usage: keys revoke <id|name>\n');
+        process.exit(1);
+      }
+      if (!store.revoke(target)) {
+        process.stderr.write(`No API key found with id or name "${target}"\n`);
+        process.exit(1);
+      }
+      process.stdout.write(`Revoked API key "${target}"\n`);
+      break;
+    }
+    case 'list': {
+      const keys = store.list();
+      if (keys.length === 0) {
+        process.stdout.write(`No API keys in ${store.path}\n`);
+        break;
+      }
+      for (const key of keys) {
+        process.stdout.write(`${key.id}  ${key.name}  tools=${key.tools.join(',')}  created=${key.createdAt}\n`);
+      }
+      break;
+    }
+    default:
+      process.stderr.write('Usage: keys <generate|list|revoke> [--name <name>] [--tools a,b] [--api-keys-file <path>]\n');
+      process.exit(1);
+  }
+}
+
+function printConfig(args: string[]): void {
+  if (args[0] !== 'print') {
+    process.stderr.write('Usage: config print [--config <path>] [other options]\n');
+    process.exit(1);
+  }
+
+  const config = parseArgs(process.argv.slice(2));
+  // Secrets are masked; everything else is shown as resolved
+  const redacted = {
+    ...config,
+    ...(config.webhooks?.secret && { webhooks: { ...config.webhooks, secret: '***' } }),
+    remote: {
+      ...config.remote,
+      ...(config.remote?.apiKey && { apiKey: '***' }),
+      ...(config.remote?.headers && {
+        headers: Object.fromEntries(Object.keys(config.remote.headers).map(name => [name, '***']))
+      })
+    }
+  };
+  process.stdout.write(`${JSON.stringify(redacted, null, 2)}\n`);
+}
+
 function showHelp(): void {
   process.stdout.write(`
 Firecrawl Local MCP Server v${VERSION}
@@ -76,16 +171,24 @@ Usage:
 Commands:
   setup    Check if dependencies (Redis, pnpm, Firecrawl) are installed
   start    Start the MCP server with local Firecrawl (default)
+  keys     Manage HTTP transport API keys (generate, list, revoke)
+  config   Show the effective configuration (config print)
   version  Show version information
   help     Show this help message
 
 Examples:
   npx firecrawl-local-mcp setup
   npx firecrawl-local-mcp start
+  npx firecrawl-local-mcp keys generate --name ci --tools firecrawl_scrape,firecrawl_map
+  npx firecrawl-local-mcp keys revoke ci
+  npx firecrawl-local-mcp config print --config firecrawl-mcp.yaml
   npx firecrawl-local-mcp version
   npx firecrawl-local-mcp
 
 Environment Variables:
+  FIRECRAWL_MCP_CONFIG  JSON or YAML config file (same as --config)
+  FIRECRAWL_API_URL  Use an existing Firecrawl instance instead of starting one
+  FIRECRAWL_API_KEY  API key for the Firecrawl instance (sent as a Bearer token)
   FIRECRAWL_PATH     Path to Firecrawl repository (default: current directory)
   REDIS_URL          Redis connection URL (default: redis://localhost:6379)
   FIRECRAWL_PORT     Port for Firecrawl API (default: 3002)
@@ -98,7 +201,7 @@ function showVersion(): void {
 
 // --- Exports & Execution Guard --- 
 // Export main for testing or potential programmatic use
-export { main, checkFirecrawlSetup };
+export { main, checkFirecrawlSetup, manageApiKeys, printConfig };
 
 // Parse CLI arguments
 function parseCliArgs(): { command: string | undefined } {
@@ -115,13 +218,20 @@ function parseCliArgs(): { command: string | undefined } {
     }
     
     // Skip transport options and their values
-    if (arg === '--transport' || arg === '--port' || arg === '--host') {
+    if (arg === '--transport' || arg === '--port' || arg === '--host' ||
+        arg === '--max-response-chars' || arg === '--max-response-tokens' || arg === '--cache-dir' ||
+        arg === '--api-url' || arg === '--api-key' || arg === '--header' || arg === '--api-keys-file' ||
+        arg === '--session-idle-timeout' || arg === '--max-sessions' || arg === '--max-sessions-per-client' || arg === '--allowed-origins' || arg === '--cors-origins' ||
+        arg === '--max-body-bytes' || arg === '--config' || arg === '--log-level' || arg === '--log-format' ||
+        arg === '--log-file' || arg === '--metrics-file' || arg === '--webhook-url' ||
+        arg === '--export-dir') {
       i++; // Skip the next argument (the value)
       continue;
     }
     
     // Skip other flags
-    if (arg === '--debug') {
+    if (arg === '--debug' || arg === '--no-cache' || arg === '--require-auth' || arg === '--stateless' ||
+        arg === '--no-rate-limit' || arg === '--no-webhooks') {
       continue;
     }
     
@@ -152,6 +262,21 @@ switch (command) {
       process.exit(1);
     });
     break;
+  case "keys": {
+    const args = process.argv.slice(2);
+    manageApiKeys(args.slice(args.indexOf('keys') + 1));
+    break;
+  }
+  case "config": {
+    const args = process.argv.slice(2);
+    try {
+      printConfig(args.slice(args.indexOf('config') + 1));
+    } catch (error) {
+      process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+      process.exit(1);
+    }
+    break;
+  }
   case "version":
   case "--version":
   case "-v":
@@ -0,0 +1,183 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { dirname } from 'path';
+import { format } from 'util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggerConfig {
+    level?: LogLevel;
+    format?: 'text' | 'json';
+    // Append to this file instead of stderr
+    file?: string;
+}
+
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevel;
+    component: string;
+    message: string;
+    fields?: Record<string, unknown>;
+    // MCP session whose request was being handled when the record was logged
+    sessionId?: string;
+}
+
+export interface LogContext {
+    sessionId?: string;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export const LOG_LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const SECRET_KEY_PATTERN = /^(authorization|cookie|set-cookie|password|secret|token|access_?token)$|api[-_]?key$/i;
+const SECRET_VALUE_PATTERNS = [
+    /(Bearer\s+)[\w.~+/=-]+/gi,
+    /\bfcmcp_[\w-]+/g,
+    /\bfc-[A-Za-z0-9]{8,}/g
+];
+// Page bodies can be megabytes; log lines only need enough to recognise them
+const MAX_STRING_CHARS = 500;
+
+function redactString(value: string): string {
+    let redacted = value;
+    for (const pattern of SECRET_VALUE_PATTERNS) {
+        redacted = redacted.replace(pattern, (match, prefix) => typeof prefix === 'string' ? `${prefix}***` : '***');
+    }
+    return redacted.length > MAX_STRING_CHARS
+        ? `${redacted.slice(0, MAX_STRING_CHARS)}... [${redacted.length} chars]`
+        : redacted;
+}
+
+// Masks secret-looking keys and values and shortens long strings, recursively
+export function redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        return redactString(value);
+    }
+    if (!value || typeof value !== 'object' || depth > 6) {
+        return value;
+    }
+    if (value instanceof Error) {
+        return { name: value.name, message: redactString(value.message) };
+    }
+    if (Array.isArray(value)) {
+        const items = value.slice(0, 20).map(item => redact(item, depth + 1));
+        return value.length > 20 ? [...items, `... ${value.length - 20} more`] : items;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && item ? '***' : redact(item, depth + 1)
+    ]));
+}
+
+/**
+ * Leveled logger that never writes to stdout, which carries the JSON-RPC stream
+ * under the stdio transport. Records go to stderr (or a file) and to any added
+ * sinks, such as MCP sessions that asked for log notifications.
+ */
+export class Logger {
+    private level: LogLevel = 'info';
+    private format: 'text' | 'json' = 'text';
+    private stream?: WriteStream;
+    private sinks = new Set<LogSink>();
+    private context = new AsyncLocalStorage<LogContext>();
+
+    configure(config: LoggerConfig): void {
+        this.level = config.level || this.level;
+        this.format = config.format || this.format;
+        this.stream?.end();
+        this.stream = undefined;
+        if (config.file) {
+            mkdirSync(dirname(config.file), { recursive: true });
+            this.stream = createWriteStream(config.file, { flags: 'a' });
+        }
+    }
+
+    addSink(sink: LogSink): () => void {
+        this.sinks.add(sink);
+        return () => this.sinks.delete(sink);
+    }
+
+    // Records logged by fn, including from work it awaits, are tagged with the context
+    runWithContext<T>(context: LogContext, fn: () => T): T {
+        return this.context.run(context, fn);
+    }
+
+    child(component: string): ComponentLogger {
+        return new ComponentLogger(this, component);
+    }
+
+    log(level: LogLevel, component: string, message: string, fields?: Record<string, unknown>): void {
+        const sessionId = this.context.getStore()?.sessionId;
+        const record: LogRecord = {
+            timestamp: new Date().toISOString(),
+            level,
+            component,
+            message: redactString(message),
+            ...(fields && { fields: redact(fields) as Record<string, unknown> }),
+            ...(sessionId && { sessionId })
+        };
+
+        if (LOG_LEVELS[level] >= LOG_LEVELS[this.level]) {
+            this.write(record);
+        }
+        // Sinks filter for themselves, since an MCP client may ask for more detail than the console shows
+        for (const sink of this.sinks) {
+            try {
+                sink(record);
+            } catch {
+                // A failing sink must not break logging for everyone else
+            }
+        }
+    }
+
+    private write(record: LogRecord): void {
+        let line: string;
+        if (this.format === 'json') {
+            line = JSON.stringify(record);
+        } else {
+            const fields = record.fields
+                ? ' ' + Object.entries(record.fields).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join(' ')
+                : '';
+            line = `${record.timestamp} ${record.level.toUpperCase().padEnd(5)} [${record.component}] ${record.message}${fields}`;
+        }
+
+        if (this.stream) {
+            this.stream.write(`${line}\n`);
+        } else {
+            process.stderr.write(`${line}\n`);
+        }
+    }
+}
+
+export class ComponentLogger {
+    constructor(private logger: Logger, private component: string) {}
+
+    debug(message: string, fields?: Record<string, unknown>): void {
+        this.logger.log('debug', this.component, message, fields);
+    }
+
+    info(message: string, fields?: Record<string, unknown>): void {
+        this.logger.log('info', this.component, message, fields);
+    }
+
+    warn(message: string, fields?: Record<string, unknown>): void {
+        this.logger.log('warn', this.component, message, fields);
+    }
+
+    error(message: string, fields?: Record<string, unknown>): void {
+        this.logger.log('error', this.component, message, fields);
+    }
+}
+
+export const logger = new Logger();
+
+// Routes stray console output from this code or dependencies to the logger
+export function captureConsole(): void {
+    const component = 'console';
+    console.log = (...args: unknown[]) => logger.log('info', component, format(...args));
+    console.info = (...args: unknown[]) => logger.log('info', component, format(...args));
+    console.debug = (...args: unknown[]) => logger.log('debug', component, format(...args));
+    console.warn = (...args: unknown[]) => logger.log('warn', component, format(...args));
+    console.error = (...args: unknown[]) => logger.log('error', component, format(...args));
+}
@@ -0,0 +1,56 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LoggingLevel, SetLevelRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { LogLevel, logger } from './logger.js';
+
+const MCP_LEVEL_ORDER: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const MCP_LEVELS: Record<LogLevel, LoggingLevel> = {
+    debug: 'debug',
+    info: 'info',
+    warn: 'warning',
+    error: 'error'
+};
+
+export interface McpLoggingOptions {
+    // Only forward records logged while handling this server's own session, for transports shared by several clients.
+    // Without session IDs (stateless HTTP) nothing would be forwarded, so don't attach logging there
+    sessionScoped?: boolean;
+}
+
+/**
+ * Forwards log records to the client as notifications/message once it has
+ * asked for them with logging/setLevel. The server must be created with the
+ * logging capability. The sink is removed when the server closes.
+ */
+export function attachMcpLogging(server: McpServer, options: McpLoggingOptions = {}): void {
+    let minimumLevel: LoggingLevel | undefined;
+
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+        minimumLevel = request.params.level;
+        return {};
+    });
+
+    const removeSink = logger.addSink(record => {
+        const level = MCP_LEVELS[record.level];
+        if (!minimumLevel || MCP_LEVEL_ORDER.indexOf(level) < MCP_LEVEL_ORDER.indexOf(minimumLevel)) {
+            return;
+        }
+        // Untagged records come from background work that may concern any client, so they stay on stderr
+        if (options.sessionScoped && (!record.sessionId || record.sessionId !== server.server.transport?.sessionId)) {
+            return;
+        }
+        server.server.sendLoggingMessage({
+            level,
+            logger: record.component,
+            data: record.fields ? { message: record.message, ...record.fields } : record.message
+        }).catch(() => {
+            // The client may be gone; logging about it here would loop
+        });
+    });
+
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+        previousOnClose?.();
+        removeSink();
+    };
+}
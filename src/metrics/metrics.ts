@@ -0,0 +1,153 @@
+// Minimal Prometheus client: counters, gauges and histograms rendered in the
+// text exposition format (version 0.0.4)
+
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function seriesKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+    const entries = Object.entries({ ...labels, ...extra });
+    return entries.length > 0
+        ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`
+        : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+abstract class Metric {
+    constructor(readonly name: string, readonly help: string, readonly type: MetricType) {}
+
+    render(): string {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+    }
+
+    protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'counter');
+    }
+
+    inc(labels: Labels = {}, value = 1): void {
+        const key = seriesKey(labels);
+        const series = this.values.get(key) || { labels, value: 0 };
+        series.value += value;
+        this.values.set(key, series);
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+export class Gauge extends Metric {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge');
+    }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(seriesKey(labels), { labels, value });
+    }
+
+    reset(): void {
+        this.values.clear();
+    }
+
+    protected samples(): string[] {
+        return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+export class Histogram extends Metric {
+    private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(name: string, help: string, private buckets: number[]) {
+        super(name, help, 'histogram');
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = seriesKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                series!.counts[index]++;
+            }
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    protected samples(): string[] {
+        return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+            ...this.buckets.map((bound, index) => `${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${counts[index]}`),
+            `${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`,
+            `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+            `${this.name}_count${formatLabels(labels)} ${count}`
+        ]);
+    }
+}
+
+export class MetricsRegistry {
+    private metrics: Metric[] = [];
+    private collectors = new Set<() => void>();
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    // Collectors run before each render, for values read from current state such as active crawls
+    onCollect(collector: () => void): () => void {
+        this.collectors.add(collector);
+        return () => this.collectors.delete(collector);
+    }
+
+    render(): string {
+        for (const collector of this.collectors) {
+            try {
+                collector();
+            } catch {
+                // Skip a broken collector rather than failing the whole scrape
+            }
+        }
+        return this.metrics.map(metric => metric.render()).join('\n') + '\n';
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
@@ -0,0 +1,115 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ZodError } from "zod";
+import { metrics } from './metrics.js';
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const toolCalls = metrics.counter(
+    'firecrawl_mcp_tool_calls_total',
+    'Tool calls by tool and outcome (ok or error)'
+);
+export const toolDuration = metrics.histogram(
+    'firecrawl_mcp_tool_duration_seconds',
+    'Tool call latency in seconds',
+    DURATION_BUCKETS
+);
+export const toolErrors = metrics.counter(
+    'firecrawl_mcp_tool_errors_total',
+    'Failed tool calls by tool and error type'
+);
+export const toolResponseBytes = metrics.counter(
+    'firecrawl_mcp_tool_response_bytes_total',
+    'Bytes of content returned to clients by tool'
+);
+export const upstreamDuration = metrics.histogram(
+    'firecrawl_mcp_upstream_request_duration_seconds',
+    'Latency of requests to the Firecrawl API in seconds',
+    DURATION_BUCKETS
+);
+export const upstreamResponses = metrics.counter(
+    'firecrawl_mcp_upstream_responses_total',
+    'Responses from the Firecrawl API by endpoint and status code (network_error or timeout when there was none)'
+);
+export const activeCrawls = metrics.gauge(
+    'firecrawl_mcp_active_crawls',
+    'Crawl jobs started or read by this server that have not finished or gone quiet for an hour'
+);
+export const webhookEvents = metrics.counter(
+    'firecrawl_mcp_webhook_events_total',
+    'Crawl webhook events received by type (rejected when the secret did not match)'
+);
+export const processRestarts = metrics.gauge(
+    'firecrawl_mcp_process_restarts',
+    'Restarts of each managed Firecrawl process since the server started'
+);
+export const processUp = metrics.gauge(
+    'firecrawl_mcp_process_up',
+    'Whether each managed Firecrawl process is ready (1) or not (0)'
+);
+
+const FINISHED_CRAWL_STATUSES = ['completed', 'failed', 'cancelled'];
+// A crawl nobody hears about for this long (no webhook, never polled again) is assumed abandoned
+const ACTIVE_CRAWL_TTL_MS = 60 * 60 * 1000;
+const crawlsLastSeen = new Map<string, number>();
+
+// Called on every crawl start, poll and webhook event, so the gauge doesn't depend on what the result store keeps
+export function trackCrawl(jobId: string, status?: string, completed?: boolean): void {
+    crawlsLastSeen.delete(jobId);
+    if (!completed && !FINISHED_CRAWL_STATUSES.includes(status || '')) {
+        crawlsLastSeen.set(jobId, Date.now());
+    }
+}
+
+export function countActiveCrawls(now = Date.now()): number {
+    for (const [jobId, lastSeen] of crawlsLastSeen) {
+        if (now - lastSeen > ACTIVE_CRAWL_TTL_MS) {
+            crawlsLastSeen.delete(jobId);
+        }
+    }
+    return crawlsLastSeen.size;
+}
+
+// Job IDs would give every crawl its own series, so they're collapsed
+export function endpointLabel(endpoint: string): string {
+    return endpoint.split('?')[0].replace(/\/[0-9a-f][0-9a-f-]{19,}/gi, '/:id');
+}
+
+// Handlers turn failures into error results, so the type is read from the message
+function classifyErrorMessage(message: string): string {
+    const status = /Firecrawl API error \((\d{3})\)/.exec(message);
+    if (status) return `upstream_${status[1]}`;
+    if (message.includes('Firecrawl unavailable')) return 'circuit_open';
+    if (message.includes('Unable to connect')) return 'connection';
+    if (/timed out|timeout/i.test(message)) return 'timeout';
+    return 'tool_error';
+}
+
+function resultText(result: CallToolResult): string {
+    return result.content
+        .map(part => part.type === 'text' ? part.text : '')
+        .join('\n');
+}
+
+function resultBytes(result: CallToolResult): number {
+    return result.content.reduce((total, part) => {
+        if (part.type === 'text') return total + Buffer.byteLength(part.text);
+        if (part.type === 'image' || part.type === 'audio') return total + Buffer.byteLength(part.data, 'base64');
+        return total;
+    }, 0);
+}
+
+export function recordToolCall(tool: string, startedAt: number, result?: CallToolResult, error?: unknown): void {
+    toolDuration.observe({ tool }, (Date.now() - startedAt) / 1000);
+
+    const errorType = error !== undefined
+        ? (error instanceof ZodError ? 'validation' : classifyErrorMessage(error instanceof Error ? error.message : String(error)))
+        : result?.isError ? classifyErrorMessage(resultText(result)) : undefined;
+
+    toolCalls.inc({ tool, status: errorType ? 'error' : 'ok' });
+    if (errorType) {
+        toolErrors.inc({ tool, type: errorType });
+    }
+    if (result) {
+        toolResponseBytes.inc({ tool }, resultBytes(result));
+    }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { countActiveCrawls, trackCrawl } from '../metrics/serverMetrics.js';
+import { ResultStore } from '../firecrawl/resultStore.js';
+
+describe('active crawl tracking', () => {
+    it('counts a crawl from its start until it finishes', () => {
+        const before = countActiveCrawls();
+        trackCrawl('job-running');
+        trackCrawl('job-cancelled', 'scraping');
+        expect(countActiveCrawls()).toBe(before + 2);
+
+        trackCrawl('job-running', 'completed', true);
+        trackCrawl('job-cancelled', 'cancelled');
+        expect(countActiveCrawls()).toBe(before);
+    });
+
+    it('drops crawls that have not been heard from for an hour', () => {
+        const before = countActiveCrawls();
+        trackCrawl('job-abandoned', 'scraping');
+        expect(countActiveCrawls(Date.now() + 30 * 60 * 1000)).toBe(before + 1);
+        expect(countActiveCrawls(Date.now() + 61 * 60 * 1000)).toBe(0);
+    });
+
+    it('follows crawls recorded in the result store, beyond the crawls it keeps', () => {
+        const store = new ResultStore();
+        const before = countActiveCrawls();
+        for (let n = 0; n < 25; n++) {
+            store.recordCrawl({ jobId: `job-${n}`, status: 'scraping' });
+        }
+        expect(countActiveCrawls()).toBe(before + 25);
+
+        store.recordCrawl({ jobId: 'job-0', status: 'completed', completed: true });
+        // A late page event carries no status and must not count the crawl again
+        store.recordCrawlPages('job-0', [{ markdown: 'late', metadata: { sourceURL: 'https://example.com/late' } }]);
+        expect(countActiveCrawls()).toBe(before + 24);
+    });
+});
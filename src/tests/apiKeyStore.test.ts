@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiKeyStore } from '../auth/apiKeyStore.js';
+
+describe('ApiKeyStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'firecrawl-mcp-keys-'));
+        filePath = join(directory, 'api-keys.json');
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('authenticates a generated key and stores only its hash', () => {
+        const store = new ApiKeyStore(filePath);
+        const { key, record } = store.generate('ci', ['firecrawl_scrape']);
+
+        expect(store.authenticate(key)?.id).toBe(record.id);
+        expect(readFileSync(filePath, 'utf-8')).not.toContain(key);
+        expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+
+    it('rejects unknown, truncated and altered keys', () => {
+        const store = new ApiKeyStore(filePath);
+        const { key } = store.generate('ci');
+
+        expect(store.authenticate('')).toBeUndefined();
+        expect(store.authenticate('fcmcp_unknown_key')).toBeUndefined();
+        expect(store.authenticate(key.slice(0, -1))).toBeUndefined();
+        expect(store.authenticate(`${key}x`)).toBeUndefined();
+        expect(store.authenticate(key.toUpperCase())).toBeUndefined();
+    });
+
+    it('ignores records with a malformed hash instead of matching them', () => {
+        writeFileSync(filePath, JSON.stringify({
+            keys: [{ id: 'bad', name: 'bad', keyHash: 'abc', tools: ['*'], createdAt: '' }]
+        }));
+        const store = new ApiKeyStore(filePath);
+
+        expect(store.authenticate('anything')).toBeUndefined();
+    });
+
+    it('defaults to every tool when no tools are given', () => {
+        const store = new ApiKeyStore(filePath);
+
+        expect(store.generate('admin', []).record.tools).toEqual(['*']);
+    });
+
+    it('stops accepting a key once it is revoked, by name or ID', () => {
+        const store = new ApiKeyStore(filePath);
+        const first = store.generate('first');
+        const second = store.generate('second');
+
+        expect(store.revoke('first')).toBe(true);
+        expect(store.revoke(second.record.id)).toBe(true);
+        expect(store.revoke('missing')).toBe(false);
+        expect(store.authenticate(first.key)).toBeUndefined();
+        expect(store.authenticate(second.key)).toBeUndefined();
+    });
+
+    it('picks up keys revoked by another process', () => {
+        const server = new ApiKeyStore(filePath);
+        const { key } = server.generate('ci');
+        expect(server.authenticate(key)).toBeDefined();
+
+        new ApiKeyStore(filePath).revoke('ci');
+        // Make sure the change is visible even on filesystems with coarse timestamps
+        const future = new Date(Date.now() + 5000);
+        utimesSync(filePath, future, future);
+
+        expect(server.authenticate(key)).toBeUndefined();
+    });
+
+    it('keeps the last good keys while the key file is malformed', () => {
+        const store = new ApiKeyStore(filePath);
+        const { key } = store.generate('ci');
+
+        writeFileSync(filePath, '{"keys": [');
+        const future = new Date(Date.now() + 5000);
+        utimesSync(filePath, future, future);
+
+        expect(store.authenticate(key)).toBeDefined();
+        expect(() => store.generate('other')).toThrow();
+        expect(readFileSync(filePath, 'utf-8')).toBe('{"keys": [');
+    });
+
+    it('rejects every key when the key file is removed', () => {
+        const store = new ApiKeyStore(filePath);
+        const { key } = store.generate('ci');
+        rmSync(filePath);
+
+        expect(store.authenticate(key)).toBeUndefined();
+        expect(store.hasKeys()).toBe(false);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../firecrawl/circuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function openBreaker(): CircuitBreaker {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 30000 });
+        breaker.recordFailure('down');
+        breaker.recordFailure('down');
+        return breaker;
+    }
+
+    it('lets a single trial through once the reset timeout has passed', () => {
+        const breaker = openBreaker();
+        expect(breaker.canRequest()).toBe(false);
+
+        vi.advanceTimersByTime(30000);
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+
+        breaker.recordSuccess();
+        expect(breaker.getStatus().state).toBe('closed');
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('reopens when the trial fails', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(30000);
+        expect(breaker.canRequest()).toBe(true);
+
+        breaker.recordFailure('still down');
+        expect(breaker.getStatus().state).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+    });
+
+    it('gives up on a trial that never records an outcome', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(30000);
+        expect(breaker.canRequest()).toBe(true);
+
+        vi.advanceTimersByTime(29999);
+        expect(breaker.canRequest()).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(breaker.canRequest()).toBe(true);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { validateConfig } from '../config/configFile.js';
+
+describe('validateConfig', () => {
+    it('accepts tool defaults that match the tool arguments', () => {
+        const config = validateConfig({
+            tools: {
+                firecrawl_crawl: { defaults: { maxDepth: 3, limit: 20 } },
+                firecrawl_extract: { defaults: { prompt: 'Summarise the page' } }
+            }
+        }, 'config');
+
+        expect(config.tools?.firecrawl_crawl.defaults).toEqual({ maxDepth: 3, limit: 20 });
+    });
+
+    it('rejects tool defaults outside the argument schema', () => {
+        expect(() => validateConfig({ tools: { firecrawl_crawl: { defaults: { maxDepth: 50 } } } }, 'config'))
+            .toThrow(/tools\.firecrawl_crawl\.defaults\.maxDepth/);
+        expect(() => validateConfig({ tools: { firecrawl_search: { defaults: { limit: '5' } } } }, 'config'))
+            .toThrow(/tools\.firecrawl_search\.defaults\.limit/);
+    });
+
+    it('rejects misspelled default arguments', () => {
+        expect(() => validateConfig({ tools: { firecrawl_map: { defaults: { limt: 10 } } } }, 'config'))
+            .toThrow(/Unrecognized key.*limt/);
+    });
+
+    it('rejects invalid values the environment would otherwise pass through', () => {
+        expect(() => validateConfig({ transport: { type: 'htp' } }, 'environment variables'))
+            .toThrow(/Invalid environment variables:\n {2}transport\.type/);
+        expect(() => validateConfig({ logging: { level: 'verbose' } }, 'environment variables')).toThrow(/logging\.level/);
+        expect(() => validateConfig({ screenshots: { fit: 'zoom' } }, 'environment variables')).toThrow(/screenshots\.fit/);
+    });
+
+    it('ignores settings that are unset', () => {
+        expect(() => validateConfig({ transport: { type: undefined, port: undefined }, logging: { level: undefined } }, 'environment variables'))
+            .not.toThrow();
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FirecrawlClient } from '../firecrawl/client.js';
+
+const BASE_URL = 'http://firecrawl.test';
+
+function cursorFor(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('FirecrawlClient pagination cursors', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let client: FirecrawlClient;
+
+    beforeEach(() => {
+        fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify({
+            success: true,
+            status: 'completed',
+            total: 30,
+            completed: 30,
+            data: [{ markdown: url, metadata: {} }],
+            ...(!url.includes('skip=20') && { next: `${BASE_URL}/v1/crawl/job-1?skip=${url.includes('skip=10') ? 20 : 10}` })
+        })));
+        vi.stubGlobal('fetch', fetchMock);
+        client = new FirecrawlClient(BASE_URL, 1000, { retry: { maxRetries: 0 } });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('returns a cursor that reads the next batch at its offset', async () => {
+        const first = await client.getCrawlStatus('job-1');
+        expect(first.offset).toBe(0);
+        expect(first.cursor).toBeDefined();
+
+        const second = await client.getCrawlStatus('job-1', { cursor: first.cursor });
+        expect(fetchMock).toHaveBeenLastCalledWith(`${BASE_URL}/v1/crawl/job-1?skip=10`, expect.anything());
+        expect(second.offset).toBe(10);
+    });
+
+    it('follows next until the page cap is reached', async () => {
+        const result = await client.getCrawlStatus('job-1', { followNext: true, maxPages: 2 });
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(result.data).toHaveLength(2);
+        expect(result.cursor).toBeDefined();
+    });
+
+    it('rejects cursors that are not valid encoded JSON', async () => {
+        await expect(client.getCrawlStatus('job-1', { cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects a cursor issued for another job', async () => {
+        const cursor = cursorFor({ jobId: 'job-2', endpoint: '/v1/crawl/job-2?skip=10' });
+
+        await expect(client.getCrawlStatus('job-1', { cursor })).rejects.toThrow('does not belong to job job-1');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects cursors whose endpoint leaves the job status path', async () => {
+        const endpoints = [
+            '/v1/crawl/job-2?skip=10',
+            '/v1/crawl/job-10',
+            '/v1/crawl/job-1/errors',
+            '/v1/crawl/job-1/../job-2',
+            '/v1/batch/scrape/job-1?skip=10',
+            '//evil.test/v1/crawl/job-1',
+            'http://evil.test/v1/crawl/job-1'
+        ];
+        for (const endpoint of endpoints) {
+            await expect(client.getCrawlStatus('job-1', { cursor: cursorFor({ jobId: 'job-1', endpoint }) }))
+                .rejects.toThrow('does not belong to job job-1');
+        }
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('does not accept a crawl cursor for a batch scrape of the same ID', async () => {
+        const { cursor } = await client.getCrawlStatus('job-1');
+
+        await expect(client.getBatchScrapeStatus('job-1', { cursor })).rejects.toThrow('does not belong to job job-1');
+    });
+
+    it('refuses to follow a next URL outside the job', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+            success: true,
+            status: 'scraping',
+            data: [],
+            next: `${BASE_URL}/v1/crawl/job-2?skip=10`
+        })));
+
+        await expect(client.getCrawlStatus('job-1', { followNext: true })).rejects.toThrow('Unexpected pagination URL');
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ALLOWED_ORIGINS, isValidOriginPattern, matchesAnyOrigin, matchesOrigin } from '../transports/originPolicy.js';
+
+describe('isValidOriginPattern', () => {
+    it('accepts exact origins and the supported wildcards', () => {
+        for (const pattern of ['*', 'https://app.example.com', 'https://*.example.com', 'http://localhost:*', 'http://localhost:8080']) {
+            expect(isValidOriginPattern(pattern)).toBe(true);
+        }
+    });
+
+    it('rejects paths, other schemes and wildcards elsewhere', () => {
+        for (const pattern of ['', 'example.com', 'https://example.com/', 'https://example.com/path', 'ftp://example.com', 'https://exa*mple.com', 'https://*', '*.example.com', 'https://example.com:80x']) {
+            expect(isValidOriginPattern(pattern)).toBe(false);
+        }
+    });
+});
+
+describe('matchesOrigin', () => {
+    it('matches an exact origin, ignoring case in the pattern host', () => {
+        expect(matchesOrigin('https://app.example.com', 'https://app.example.com')).toBe(true);
+        expect(matchesOrigin('https://app.example.com', 'https://APP.Example.com')).toBe(true);
+    });
+
+    it('requires the same scheme', () => {
+        expect(matchesOrigin('http://app.example.com', 'https://app.example.com')).toBe(false);
+    });
+
+    it('requires the same port unless the pattern allows any', () => {
+        expect(matchesOrigin('https://app.example.com:8443', 'https://app.example.com')).toBe(false);
+        expect(matchesOrigin('http://localhost:3000', 'http://localhost:3000')).toBe(true);
+        expect(matchesOrigin('http://localhost:3001', 'http://localhost:3000')).toBe(false);
+        expect(matchesOrigin('http://localhost:3001', 'http://localhost:*')).toBe(true);
+        expect(matchesOrigin('http://localhost', 'http://localhost:*')).toBe(true);
+    });
+
+    it('matches subdomains only, not the bare domain or lookalikes', () => {
+        const pattern = 'https://*.example.com';
+        expect(matchesOrigin('https://app.example.com', pattern)).toBe(true);
+        expect(matchesOrigin('https://a.b.example.com', pattern)).toBe(true);
+        expect(matchesOrigin('https://example.com', pattern)).toBe(false);
+        expect(matchesOrigin('https://evilexample.com', pattern)).toBe(false);
+        expect(matchesOrigin('https://example.com.evil.net', pattern)).toBe(false);
+    });
+
+    it('does not match hosts that merely start with the allowed host', () => {
+        expect(matchesOrigin('http://localhost.evil.net:3000', 'http://localhost:*')).toBe(false);
+        expect(matchesOrigin('http://127.0.0.1.nip.io', 'http://127.0.0.1:*')).toBe(false);
+    });
+
+    it('rejects values that are not bare origins', () => {
+        expect(matchesOrigin('https://app.example.com/', 'https://app.example.com')).toBe(false);
+        expect(matchesOrigin('https://user@app.example.com', 'https://app.example.com')).toBe(false);
+        // Browsers send origins in canonical form, so anything else is refused rather than normalised
+        expect(matchesOrigin('https://APP.example.com', 'https://app.example.com')).toBe(false);
+        expect(matchesOrigin('https://app.example.com:443', 'https://app.example.com')).toBe(false);
+        expect(matchesOrigin('null', 'https://app.example.com')).toBe(false);
+        expect(matchesOrigin('not a url', 'https://app.example.com')).toBe(false);
+    });
+
+    it('never matches through an invalid pattern', () => {
+        expect(matchesOrigin('https://app.example.com', 'https://app.example.com/')).toBe(false);
+    });
+
+    it('matches everything with a lone *', () => {
+        expect(matchesOrigin('https://anything.example', '*')).toBe(true);
+    });
+});
+
+describe('DEFAULT_ALLOWED_ORIGINS', () => {
+    it('allows local origins on any port and nothing else', () => {
+        expect(matchesAnyOrigin('http://localhost:5173', DEFAULT_ALLOWED_ORIGINS)).toBe(true);
+        expect(matchesAnyOrigin('https://127.0.0.1:8443', DEFAULT_ALLOWED_ORIGINS)).toBe(true);
+        expect(matchesAnyOrigin('https://example.com', DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+        expect(matchesAnyOrigin('http://0.0.0.0:3000', DEFAULT_ALLOWED_ORIGINS)).toBe(false);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../transports/rateLimiter.js';
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('allows a burst, then refuses until the bucket refills', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { requestsPerMinute: 6, burst: 2 } } });
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        const refused = limiter.tryAcquire('key:a', 'firecrawl_crawl');
+        expect(refused).toMatchObject({ allowed: false, retryAfterSeconds: 10 });
+
+        // One token every 10 seconds at 6 per minute
+        vi.advanceTimersByTime(9999);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+    });
+
+    it('never refills beyond the burst size', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { requestsPerMinute: 6, burst: 2 } } });
+        vi.advanceTimersByTime(60 * 60 * 1000);
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(false);
+    });
+
+    it('keeps separate buckets per client and per tool', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { requestsPerMinute: 1 } } });
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(false);
+        expect(limiter.tryAcquire('key:b', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_map').allowed).toBe(true);
+    });
+
+    it('does not spend a token on a refused call', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { requestsPerMinute: 60, burst: 1, maxConcurrent: 1 } } });
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        vi.advanceTimersByTime(1000);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl')).toMatchObject({ allowed: false, reason: expect.stringContaining('concurrent') });
+        limiter.release('key:a', 'firecrawl_crawl');
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+    });
+
+    it('caps concurrent calls per tool until they are released', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { maxConcurrent: 2 } } });
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(false);
+
+        limiter.release('key:a', 'firecrawl_crawl');
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+    });
+
+    it('caps concurrent calls per client across tools', () => {
+        const limiter = new RateLimiter({ maxConcurrentPerClient: 2 });
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_map').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_search').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_scrape').allowed).toBe(false);
+        expect(limiter.tryAcquire('key:b', 'firecrawl_scrape').allowed).toBe(true);
+    });
+
+    it('does not let extra releases raise the concurrency limit', () => {
+        const limiter = new RateLimiter({ tools: { firecrawl_crawl: { maxConcurrent: 1 } } });
+
+        limiter.release('key:a', 'firecrawl_crawl');
+        limiter.release('key:a', 'firecrawl_crawl');
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_crawl').allowed).toBe(false);
+    });
+
+    it('applies the built-in limits to tools that are not configured', () => {
+        const limiter = new RateLimiter();
+
+        expect(limiter.tryAcquire('key:a', 'firecrawl_batch_scrape').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_batch_scrape').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_batch_scrape').allowed).toBe(false);
+    });
+
+    it('limits initialize requests separately from tool calls', () => {
+        const limiter = new RateLimiter({ initialize: { requestsPerMinute: 6, burst: 2 } });
+
+        expect(limiter.tryInitialize('key:a').allowed).toBe(true);
+        expect(limiter.tryInitialize('key:a').allowed).toBe(true);
+        const decision = limiter.tryInitialize('key:a');
+        expect(decision.allowed).toBe(false);
+        expect(decision.allowed === false && decision.reason).toContain('initialize');
+        expect(limiter.tryInitialize('key:b').allowed).toBe(true);
+        expect(limiter.tryAcquire('key:a', 'firecrawl_scrape').allowed).toBe(true);
+    });
+
+    it('reports whether limiting is enabled', () => {
+        expect(new RateLimiter().enabled).toBe(true);
+        expect(new RateLimiter({ enabled: false }).enabled).toBe(false);
+    });
+});
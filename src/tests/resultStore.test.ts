@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { ScrapeResult } from '../firecrawl/client.js';
+import { crawlPageNumber, ResultStore } from '../firecrawl/resultStore.js';
+
+function page(path: string, markdown = path): ScrapeResult {
+    return { markdown, metadata: { sourceURL: `https://example.com${path}` } };
+}
+
+describe('ResultStore crawl pages', () => {
+    it('keeps the numbers of webhook pages when the same pages are polled in a different order', () => {
+        const store = new ResultStore();
+        expect(store.recordCrawlPages('job', [page('/b')])).toEqual([1]);
+        expect(store.recordCrawlPages('job', [page('/a')])).toEqual([2]);
+
+        const polled = [page('/a', 'a polled'), page('/b', 'b polled'), page('/c')];
+        const stored = store.recordCrawl({ jobId: 'job', status: 'scraping', data: polled });
+
+        expect(stored.pages.map(stored => stored.markdown)).toEqual(['b polled', 'a polled', '/c']);
+        expect(polled.map((polledPage, index) => crawlPageNumber(stored, polledPage, index))).toEqual([2, 1, 3]);
+    });
+
+    it('stores a page polled in later batches only once', () => {
+        const store = new ResultStore();
+        store.recordCrawl({ jobId: 'job', data: [page('/a'), page('/b')] });
+        store.recordCrawlPages('job', [page('/c')]);
+        const stored = store.recordCrawl({ jobId: 'job', offset: 2, data: [page('/c'), page('/d')] });
+
+        expect(stored.pages).toHaveLength(4);
+        expect(crawlPageNumber(stored, page('/d'), 3)).toBe(4);
+    });
+
+    it('falls back to the Firecrawl position without a stored crawl', () => {
+        expect(crawlPageNumber(undefined, page('/a'), 9)).toBe(10);
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parseArgs } from '../config/TransportConfig.js';
+
+describe('parseArgs', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('applies valid flags over the defaults', () => {
+        const config = parseArgs(['--transport', 'http', '--port', '4000', '--max-sessions', '20']);
+
+        expect(config.transport).toMatchObject({ type: 'http', port: 4000, maxSessions: 20 });
+    });
+
+    it('rejects flag values that are not numbers or allowed choices', () => {
+        expect(() => parseArgs(['--port', 'abc'])).toThrow(/transport\.port/);
+        expect(() => parseArgs(['--max-sessions-per-client', 'x'])).toThrow(/transport\.maxSessionsPerClient/);
+        expect(() => parseArgs(['--transport', 'htp'])).toThrow(/transport\.type/);
+        expect(() => parseArgs(['--log-level', 'verbose'])).toThrow(/logging\.level/);
+    });
+
+    it('rejects JSON environment variables that do not hold a JSON object', () => {
+        vi.stubEnv('MCP_RATE_LIMITS', '{"enabled": fals');
+        expect(() => parseArgs([])).toThrow(/MCP_RATE_LIMITS/);
+
+        vi.stubEnv('MCP_RATE_LIMITS', '');
+        vi.stubEnv('FIRECRAWL_HEADERS', '["x"]');
+        expect(() => parseArgs([])).toThrow(/FIRECRAWL_HEADERS/);
+    });
+});
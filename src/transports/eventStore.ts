@@ -0,0 +1,50 @@
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+// Keeps recent SSE events in memory so a client can resume a stream with Last-Event-ID
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, StoredEvent>();
+  private maxEvents: number;
+
+  constructor(maxEvents: number = 1000) {
+    this.maxEvents = maxEvents;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${Date.now()}_${randomUUID().slice(0, 8)}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      this.events.delete(this.events.keys().next().value as EventId);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(lastEventId: EventId, { send }: {
+    send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>;
+  }): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return '';
+    }
+
+    // Map iteration follows insertion order, which is the order events were sent
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
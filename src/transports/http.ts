@@ -1,45 +1,123 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import { existsSync } from "fs";
 import http from "http";
+import { ApiKeyStore } from "../auth/apiKeyStore.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { RateLimitConfig, RateLimiter } from "./rateLimiter.js";
+import { logger } from "../logging/logger.js";
+import { metrics, METRICS_CONTENT_TYPE } from "../metrics/metrics.js";
+import { DEFAULT_ALLOWED_ORIGINS, isValidOriginPattern, matchesAnyOrigin } from "./originPolicy.js";
+import { CrawlWebhookReceiver, WEBHOOK_PATH } from "../firecrawl/crawlWebhook.js";
+import { PayloadTooLargeError, readBody } from "./readBody.js";
+
+export interface HttpAuthConfig {
+  // Require a key even when the key file doesn't exist yet
+  required?: boolean;
+  keysFile?: string;
+}
 
 export interface HttpTransportConfig {
   port?: number;
   host?: string;
+  auth?: HttpAuthConfig;
+  // One shared transport without session IDs instead of a transport per session
+  stateless?: boolean;
+  sessionIdleTimeoutMs?: number;
+  // Caps on open sessions, overall and per client, since each one holds a server and event store
+  maxSessions?: number;
+  maxSessionsPerClient?: number;
+  rateLimits?: RateLimitConfig;
+  // Origin patterns accepted in the Origin header (DNS rebinding protection)
+  allowedOrigins?: string[];
+  cors?: HttpCorsConfig;
+  maxBodyBytes?: number;
+}
+
+export interface HttpCorsConfig {
+  // Origin patterns echoed in Access-Control-Allow-Origin (default: allowedOrigins)
+  origins?: string[];
+  allowedHeaders?: string[];
+  exposedHeaders?: string[];
+}
+
+const DEFAULT_CORS_ALLOWED_HEADERS = ['Content-Type', 'mcp-session-id', 'Last-Event-ID', 'Authorization', 'X-API-Key'];
+const DEFAULT_CORS_EXPOSED_HEADERS = ['mcp-session-id'];
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_MAX_SESSIONS_PER_CLIENT = 20;
+// Resources expose stored tool results, so reading them takes the permission of the tool that produced them
+const RESOURCE_TOOLS: Record<string, string> = {
+  'firecrawl://crawl/': 'firecrawl_crawl_status',
+  'firecrawl://scrape/': 'firecrawl_scrape'
+};
+
+const log = logger.child('http');
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  clientId?: string;
+  // Rate limiter key: the API key, or the remote address without authentication
+  clientKey: string;
+  lastActivity: number;
+  // Open requests, including SSE streams and running tool calls; a busy session is never idle
+  activeRequests: number;
 }
 
 export class HttpTransportHandler {
-  private server: McpServer;
+  private createServer: () => McpServer;
   private config: HttpTransportConfig;
+  private keyStore?: ApiKeyStore;
+  private sessions = new Map<string, HttpSession>();
+  private rateLimiter: RateLimiter;
+  private crawlWebhook?: CrawlWebhookReceiver;
 
-  constructor(server: McpServer, config: HttpTransportConfig = {}) {
-    this.server = server;
+  constructor(createServer: () => McpServer, config: HttpTransportConfig = {}, crawlWebhook?: CrawlWebhookReceiver) {
+    this.createServer = createServer;
     this.config = config;
+    this.crawlWebhook = crawlWebhook;
+    this.rateLimiter = new RateLimiter(config.rateLimits);
+
+    const patterns = [...(config.allowedOrigins || []), ...(config.cors?.origins || [])];
+    const invalid = patterns.filter(pattern => !isValidOriginPattern(pattern));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid origin pattern(s): ${invalid.join(', ')}`);
+    }
+
+    // Auth is on once a key file exists, so revoking the last key locks the server rather than opening it
+    const keysFile = config.auth?.keysFile || ApiKeyStore.defaultPath();
+    if (config.auth?.required || existsSync(keysFile)) {
+      this.keyStore = new ApiKeyStore(keysFile);
+    }
   }
 
   async connect(): Promise<void> {
     const port = this.config.port || 3000;
     const host = this.config.host || '127.0.0.1';
+    const maxBodyBytes = this.config.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
     
-    // Configure transport for stateless mode to allow multiple initialization cycles
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined // Stateless mode - allows multiple initializations
-    });
-
-    await this.server.connect(transport);
+    let statelessTransport: StreamableHTTPServerTransport | undefined;
+    if (this.config.stateless) {
+      // Stateless mode - allows multiple initializations on one shared transport
+      statelessTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined
+      });
+      await this.createServer().connect(statelessTransport);
+    } else {
+      this.startSessionSweeper();
+    }
     
     // Create HTTP server to handle the StreamableHTTP transport
     const httpServer = http.createServer(async (req, res) => {
       // Validate Origin header to prevent DNS rebinding attacks (MCP spec requirement)
       const origin = req.headers.origin;
-      const allowedOrigins = [
-        'http://localhost',
-        'http://127.0.0.1',
-        'https://localhost', 
-        'https://127.0.0.1'
-      ];
+      const allowedOrigins = this.config.allowedOrigins || DEFAULT_ALLOWED_ORIGINS;
       
       // For requests with Origin header, validate it
-      if (origin && !allowedOrigins.some(allowed => origin.startsWith(allowed))) {
+      if (origin && !matchesAnyOrigin(origin, allowedOrigins)) {
         res.writeHead(403, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
           error: 'Forbidden: Invalid origin',
@@ -48,22 +126,24 @@ export class HttpTransportHandler {
         return;
       }
 
-      // Basic request size limiting (prevent DoS)
+      // Basic request size limiting (prevent DoS); the actual bytes are counted while reading the body
       const contentLength = parseInt(req.headers['content-length'] || '0', 10);
-      const maxRequestSize = 10 * 1024 * 1024; // 10MB limit
-      if (contentLength > maxRequestSize) {
-        res.writeHead(413, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          error: 'Payload Too Large',
-          message: 'Request size exceeds maximum allowed size'
-        }));
+      if (contentLength > maxBodyBytes) {
+        this.writePayloadTooLarge(res);
         return;
       }
 
       // Handle CORS
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, mcp-session-id');
+      const corsOrigins = this.config.cors?.origins || allowedOrigins;
+      if (corsOrigins.includes('*')) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+      } else if (origin && matchesAnyOrigin(origin, corsOrigins)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+      }
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', (this.config.cors?.allowedHeaders || DEFAULT_CORS_ALLOWED_HEADERS).join(', '));
+      res.setHeader('Access-Control-Expose-Headers', (this.config.cors?.exposedHeaders || DEFAULT_CORS_EXPOSED_HEADERS).join(', '));
       
       if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -96,10 +176,89 @@ export class HttpTransportHandler {
         return;
       }
 
+      // Firecrawl crawl webhooks authenticate with their own shared secret rather than an API key
+      if (this.crawlWebhook && req.method === 'POST' && req.url?.split('?')[0] === WEBHOOK_PATH) {
+        await this.crawlWebhook.handleRequest(req, res);
+        return;
+      }
+
+      let authInfo: AuthInfo | undefined;
+      if (this.keyStore) {
+        try {
+          authInfo = this.authenticate(req);
+        } catch (error) {
+          log.error('API key check failed', { error });
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal Server Error', message: 'API keys could not be checked' }));
+          return;
+        }
+        if (!authInfo) {
+          res.writeHead(401, {
+            'Content-Type': 'application/json',
+            'WWW-Authenticate': 'Bearer realm="firecrawl-mcp"'
+          });
+          res.end(JSON.stringify({
+            error: 'Unauthorized',
+            message: 'A valid API key is required (Authorization: Bearer <key> or X-API-Key header)'
+          }));
+          return;
+        }
+        (req as http.IncomingMessage & { auth?: AuthInfo }).auth = authInfo;
+      }
+
+      // Prometheus metrics; behind authentication since they reveal usage
+      if (req.method === 'GET' && req.url === '/metrics') {
+        res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+        res.end(metrics.render());
+        return;
+      }
+
+      // Tool permissions and session initialization both depend on the message,
+      // so the body has to be read before the transport sees it
+      let parsedBody: unknown;
+      if (req.method === 'POST') {
+        try {
+          parsedBody = JSON.parse(await readBody(req, maxBodyBytes));
+        } catch (error) {
+          if (error instanceof PayloadTooLargeError) {
+            this.writePayloadTooLarge(res);
+          } else {
+            this.writeJsonRpcError(res, 400, -32700, 'Parse error');
+          }
+          return;
+        }
+
+        const denied = authInfo && this.findDeniedRequest(parsedBody, authInfo);
+        if (denied) {
+          this.writeJsonRpcError(
+            res,
+            403,
+            -32001,
+            `API key "${authInfo!.extra?.name}" is not allowed to ${denied.action}`,
+            denied.id
+          );
+          return;
+        }
+      }
+
+      const transport = statelessTransport || await this.resolveSession(req, res, parsedBody, authInfo);
+      if (!transport) {
+        return;
+      }
+
+      if (parsedBody !== undefined && !this.acquireRateLimits(req, res, parsedBody, authInfo)) {
+        return;
+      }
+
       try {
-        await transport.handleRequest(req, res);
+        // Tags log records with the session, so log notifications only reach the client they concern
+        await logger.runWithContext({ sessionId: transport.sessionId }, () => transport.handleRequest(req, res, parsedBody));
+        // An initialize the transport rejected leaves a server nobody can reach; drop it instead of leaking it
+        if (!statelessTransport && !transport.sessionId) {
+          await transport.close();
+        }
       } catch (error) {
-        process.stderr.write(`Error handling request: ${error instanceof Error ? error.message : error}\n`);
+        log.error('Error handling request', { error });
         if (!res.headersSent) {
           res.writeHead(500, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({
@@ -115,7 +274,249 @@ export class HttpTransportHandler {
     });
 
     httpServer.listen(port, host, () => {
-      process.stderr.write(`Firecrawl MCP Server listening on http://${host}:${port}\n`);
+      log.info(`Firecrawl MCP Server listening on http://${host}:${port}`);
+      // A wildcard bind address isn't something Firecrawl can call back to
+      const callbackHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host;
+      this.crawlWebhook?.useBaseUrl(`http://${callbackHost}:${port}`);
+      if (!this.keyStore && host !== '127.0.0.1' && host !== 'localhost') {
+        log.warn('API key authentication is disabled. Generate a key with "keys generate" before exposing this server.');
+      }
+    });
+  }
+
+  // Finds the session a request belongs to, or starts one for an initialize request
+  private async resolveSession(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    parsedBody: unknown,
+    authInfo?: AuthInfo
+  ): Promise<StreamableHTTPServerTransport | undefined> {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.writeJsonRpcError(res, 404, -32001, 'Session not found');
+        return undefined;
+      }
+      if (session.clientId !== authInfo?.clientId) {
+        this.writeJsonRpcError(res, 403, -32001, 'Session belongs to a different API key');
+        return undefined;
+      }
+      session.lastActivity = Date.now();
+      session.activeRequests++;
+      res.once('close', () => {
+        session.activeRequests--;
+        session.lastActivity = Date.now();
+      });
+      return session.transport;
+    }
+
+    const messages = Array.isArray(parsedBody) ? parsedBody : [parsedBody];
+    const initialize = req.method === 'POST' ? messages.findIndex(message => isInitializeRequest(message)) : -1;
+    if (initialize < 0) {
+      this.writeJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return undefined;
+    }
+
+    const clientKey = this.clientKey(req, authInfo);
+    if (!this.acquireSessionSlot(res, clientKey, (messages[initialize] as { id?: string | number }).id)) {
+      return undefined;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, {
+          transport,
+          clientId: authInfo?.clientId,
+          clientKey,
+          lastActivity: Date.now(),
+          activeRequests: 0
+        });
+      }
     });
+    const server = this.createServer();
+    await server.connect(transport);
+    // connect() takes over transport.onclose, so listen on the protocol instead,
+    // keeping any handler the server factory installed
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      previousOnClose?.();
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    return transport;
+  }
+
+  // Checks the session caps and the initialize rate limit before a new session is built.
+  // Writes a 429 (per client) or 503 (server full) and returns false when over a limit.
+  private acquireSessionSlot(res: http.ServerResponse, clientKey: string, id?: string | number): boolean {
+    const maxSessions = this.config.maxSessions || DEFAULT_MAX_SESSIONS;
+    if (this.sessions.size >= maxSessions) {
+      res.setHeader('Retry-After', '60');
+      this.writeJsonRpcError(res, 503, -32000, `Too many open sessions (limit ${maxSessions}). Retry after 60s.`, id);
+      return false;
+    }
+
+    const maxPerClient = this.config.maxSessionsPerClient || DEFAULT_MAX_SESSIONS_PER_CLIENT;
+    let clientSessions = 0;
+    for (const session of this.sessions.values()) {
+      if (session.clientKey === clientKey) {
+        clientSessions++;
+      }
+    }
+    if (clientSessions >= maxPerClient) {
+      this.writeJsonRpcError(
+        res,
+        429,
+        -32029,
+        `Too many open sessions for this client (limit ${maxPerClient}). Close unused sessions with DELETE or wait for them to expire.`,
+        id
+      );
+      return false;
+    }
+
+    if (this.rateLimiter.enabled) {
+      const decision = this.rateLimiter.tryInitialize(clientKey);
+      if (!decision.allowed) {
+        res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+        this.writeJsonRpcError(res, 429, -32029, `${decision.reason}. Retry after ${decision.retryAfterSeconds}s.`, id);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private clientKey(req: http.IncomingMessage, authInfo?: AuthInfo): string {
+    return authInfo ? `key:${authInfo.clientId}` : `ip:${req.socket.remoteAddress}`;
+  }
+
+  // Reserves rate limit and concurrency slots for every tool call in the request,
+  // releasing them when the response ends. Writes a 429 and returns false when over a limit.
+  private acquireRateLimits(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    parsedBody: unknown,
+    authInfo?: AuthInfo
+  ): boolean {
+    if (!this.rateLimiter.enabled) {
+      return true;
+    }
+
+    const clientKey = this.clientKey(req, authInfo);
+    const messages = Array.isArray(parsedBody) ? parsedBody : [parsedBody];
+    const acquired: string[] = [];
+
+    for (const message of messages) {
+      if (message?.method !== 'tools/call') {
+        continue;
+      }
+
+      const tool = String(message.params?.name);
+      const decision = this.rateLimiter.tryAcquire(clientKey, tool);
+      if (!decision.allowed) {
+        acquired.forEach(name => this.rateLimiter.release(clientKey, name));
+        res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+        this.writeJsonRpcError(res, 429, -32029, `${decision.reason}. Retry after ${decision.retryAfterSeconds}s.`, message.id);
+        return false;
+      }
+      acquired.push(tool);
+    }
+
+    if (acquired.length > 0) {
+      res.once('close', () => {
+        acquired.forEach(name => this.rateLimiter.release(clientKey, name));
+      });
+    }
+    return true;
+  }
+
+  private startSessionSweeper(): void {
+    const idleTimeoutMs = this.config.sessionIdleTimeoutMs || 30 * 60 * 1000;
+    const sweeper = setInterval(() => {
+      const now = Date.now();
+      for (const [sessionId, session] of this.sessions) {
+        if (session.activeRequests === 0 && now - session.lastActivity > idleTimeoutMs) {
+          this.sessions.delete(sessionId);
+          session.transport.close().catch(() => undefined);
+        }
+      }
+    }, Math.min(idleTimeoutMs, 60 * 1000));
+    sweeper.unref();
+  }
+
+  private writeJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string, id?: string | number): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: id ?? null
+    }));
   }
-} 
\ No newline at end of file
+
+  private authenticate(req: http.IncomingMessage): AuthInfo | undefined {
+    const authorization = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+    const key = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : (Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader);
+    if (!key) {
+      return undefined;
+    }
+
+    const record = this.keyStore!.authenticate(key);
+    if (!record) {
+      return undefined;
+    }
+
+    return {
+      token: key,
+      clientId: record.id,
+      scopes: record.tools,
+      extra: { name: record.name }
+    };
+  }
+
+  private findDeniedRequest(body: unknown, authInfo: AuthInfo): { action: string; id?: string | number } | undefined {
+    if (authInfo.scopes.includes('*')) {
+      return undefined;
+    }
+
+    const messages = Array.isArray(body) ? body : [body];
+    for (const message of messages) {
+      const method = typeof message?.method === 'string' ? message.method : '';
+      if (method === 'tools/call') {
+        const name = String(message.params?.name);
+        if (!authInfo.scopes.includes(name)) {
+          return { action: `call ${name}`, id: message.id };
+        }
+      } else if (method === 'resources/read') {
+        const uri = String(message.params?.uri);
+        const prefix = Object.keys(RESOURCE_TOOLS).find(candidate => uri.startsWith(candidate));
+        const tool = prefix && RESOURCE_TOOLS[prefix];
+        if (!tool || !authInfo.scopes.includes(tool)) {
+          return { action: `read ${uri}${tool ? ` (requires ${tool})` : ''}`, id: message.id };
+        }
+      } else if (method.startsWith('resources/')) {
+        // Listing is allowed with either permission; each key only sees its own results anyway
+        const tools = Object.values(RESOURCE_TOOLS);
+        if (!tools.some(tool => authInfo.scopes.includes(tool))) {
+          return { action: `use ${method} (requires ${tools.join(' or ')})`, id: message.id };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private writePayloadTooLarge(res: http.ServerResponse): void {
+    res.writeHead(413, { 'Content-Type': 'application/json', 'Connection': 'close' });
+    res.end(JSON.stringify({
+      error: 'Payload Too Large',
+      message: 'Request size exceeds maximum allowed size'
+    }));
+  }
+}
@@ -0,0 +1,59 @@
+// Origin patterns are exact origins ("https://app.example.com") with two optional
+// wildcards: a leading "*." in the host for any subdomain, and ":*" for any port.
+// "*" on its own matches every origin.
+
+export const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:*',
+  'http://127.0.0.1:*',
+  'https://localhost:*',
+  'https://127.0.0.1:*'
+];
+
+const PATTERN = /^(https?):\/\/(\*\.)?([^:/*]+)(?::(\d+|\*))?$/;
+
+export function isValidOriginPattern(pattern: string): boolean {
+  return pattern === '*' || PATTERN.test(pattern);
+}
+
+export function matchesOrigin(origin: string, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+
+  const match = PATTERN.exec(pattern);
+  if (!match) {
+    return false;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  // An origin is scheme://host[:port] and nothing else
+  if (url.origin !== origin) {
+    return false;
+  }
+
+  const [, scheme, subdomainWildcard, host, port] = match;
+  if (url.protocol !== `${scheme}:`) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const patternHost = host.toLowerCase();
+  const hostMatches = subdomainWildcard
+    ? hostname.endsWith(`.${patternHost}`)
+    : hostname === patternHost;
+  if (!hostMatches) {
+    return false;
+  }
+
+  // URL drops default ports, so "" means 80/443
+  return port === '*' || url.port === (port ?? '');
+}
+
+export function matchesAnyOrigin(origin: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesOrigin(origin, pattern));
+}
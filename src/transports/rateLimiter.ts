@@ -0,0 +1,152 @@
+export interface ToolRateLimit {
+  // Sustained rate; the bucket refills continuously at this pace
+  requestsPerMinute?: number;
+  // Bucket size, i.e. how many calls may be made back to back (default: requestsPerMinute)
+  burst?: number;
+  maxConcurrent?: number;
+}
+
+export interface RateLimitConfig {
+  enabled?: boolean;
+  // Applies to tools without their own entry
+  default?: ToolRateLimit;
+  tools?: Record<string, ToolRateLimit>;
+  // Cap on concurrent tool calls per client across all tools
+  maxConcurrentPerClient?: number;
+  // New sessions per client; each initialize builds a server and event store, so it is limited like a tool call
+  initialize?: ToolRateLimit;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; reason: string };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Crawls and batch jobs tie up Firecrawl workers for minutes, so they get far less headroom
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  default: { requestsPerMinute: 120, maxConcurrent: 10 },
+  tools: {
+    firecrawl_crawl: { requestsPerMinute: 6, burst: 2, maxConcurrent: 2 },
+    firecrawl_batch_scrape: { requestsPerMinute: 6, burst: 2, maxConcurrent: 2 },
+    firecrawl_extract: { requestsPerMinute: 12, burst: 4, maxConcurrent: 2 },
+    firecrawl_export: { requestsPerMinute: 12, burst: 4, maxConcurrent: 2 },
+    firecrawl_health: { requestsPerMinute: 600 }
+  },
+  maxConcurrentPerClient: 16,
+  initialize: { requestsPerMinute: 30, burst: 10 }
+};
+
+const MAX_TRACKED_BUCKETS = 10000;
+
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private buckets = new Map<string, Bucket>();
+  private inFlight = new Map<string, number>();
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = {
+      ...DEFAULT_RATE_LIMITS,
+      ...config,
+      default: { ...DEFAULT_RATE_LIMITS.default, ...config.default },
+      tools: { ...DEFAULT_RATE_LIMITS.tools, ...config.tools },
+      initialize: { ...DEFAULT_RATE_LIMITS.initialize, ...config.initialize }
+    };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled !== false;
+  }
+
+  /**
+   * Reserves a slot for one call to `tool`. Every allowed call must be
+   * followed by release() once it finishes.
+   */
+  tryAcquire(clientKey: string, tool: string): RateLimitDecision {
+    const limit = this.limitFor(tool);
+    const toolKey = `${clientKey}\u0000${tool}`;
+
+    const clientInFlight = this.inFlight.get(clientKey) || 0;
+    if (this.config.maxConcurrentPerClient && clientInFlight >= this.config.maxConcurrentPerClient) {
+      return { allowed: false, retryAfterSeconds: 1, reason: `Too many concurrent tool calls (limit ${this.config.maxConcurrentPerClient})` };
+    }
+
+    const toolInFlight = this.inFlight.get(toolKey) || 0;
+    if (limit.maxConcurrent && toolInFlight >= limit.maxConcurrent) {
+      return { allowed: false, retryAfterSeconds: 1, reason: `Too many concurrent ${tool} calls (limit ${limit.maxConcurrent})` };
+    }
+
+    const decision = this.takeToken(toolKey, limit, tool);
+    if (!decision.allowed) {
+      return decision;
+    }
+
+    this.inFlight.set(clientKey, clientInFlight + 1);
+    this.inFlight.set(toolKey, toolInFlight + 1);
+    return { allowed: true };
+  }
+
+  // Initialize requests only draw from their own bucket; the session caps live in the transport
+  tryInitialize(clientKey: string): RateLimitDecision {
+    return this.takeToken(`${clientKey}\u0000initialize`, this.config.initialize || {}, 'initialize');
+  }
+
+  release(clientKey: string, tool: string): void {
+    for (const key of [clientKey, `${clientKey}\u0000${tool}`]) {
+      const count = (this.inFlight.get(key) || 0) - 1;
+      if (count > 0) {
+        this.inFlight.set(key, count);
+      } else {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  private takeToken(bucketKey: string, limit: ToolRateLimit, label: string): RateLimitDecision {
+    if (!limit.requestsPerMinute) {
+      return { allowed: true };
+    }
+
+    const capacity = limit.burst || limit.requestsPerMinute;
+    const refillPerMs = limit.requestsPerMinute / 60000;
+    const now = Date.now();
+    const bucket = this.buckets.get(bucketKey) || { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens < 1) {
+      this.buckets.set(bucketKey, bucket);
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+        reason: `Rate limit exceeded for ${label} (${limit.requestsPerMinute} per minute)`
+      };
+    }
+
+    bucket.tokens -= 1;
+    this.buckets.set(bucketKey, bucket);
+    this.pruneBuckets();
+    return { allowed: true };
+  }
+
+  private limitFor(tool: string): ToolRateLimit {
+    return this.config.tools?.[tool] || this.config.default || {};
+  }
+
+  // Buckets that have refilled completely carry no state and can be dropped
+  private pruneBuckets(): void {
+    if (this.buckets.size <= MAX_TRACKED_BUCKETS) {
+      return;
+    }
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 60000) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}